@@ -5,14 +5,17 @@ import * as dotenv from "dotenv";
 dotenv.config({ path: ".env.local" });
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+// The anon key can't write posts (20260307000000_api_only_access.sql)
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error("Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY in .env.local");
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local");
   process.exit(1);
 }
 
-const supabase = createClient(supabaseUrl, supabaseAnonKey);
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
 
 // ── Text-only posts ──────────────────────────────────────────────────
 const textOnlyPosts = [
@@ -107,6 +110,27 @@ const imagePosts = [
   },
 ];
 
+// ── Posts with short videos (Google's public 720p sample clips) ───────
+const SAMPLE_VIDEOS = "https://storage.googleapis.com/gtv-videos-bucket/sample";
+const videoPosts = [
+  {
+    content: "Someone set up a projector in the quad last night 🔥",
+    clip: "ForBiggerBlazes",
+  },
+  {
+    content: "POV: you finally escape the library after finals",
+    clip: "ForBiggerEscapes",
+  },
+  {
+    content: "Club fair was chaos in the best way",
+    clip: "ForBiggerFun",
+  },
+  {
+    content: "Weekend road trip with the dorm crew 🚗",
+    clip: "ForBiggerJoyrides",
+  },
+];
+
 // ── Helpers ───────────────────────────────────────────────────────────
 
 /** Returns a random date within the last `days` days */
@@ -121,6 +145,34 @@ function randomInt(min: number, max: number): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
 
+/** Width and height from a picsum URL ending in /{width}/{height} */
+function picsumSize(url: string): { width: number; height: number } {
+  const [, width, height] = url.match(/\/(\d+)\/(\d+)$/)!;
+  return { width: Number(width), height: Number(height) };
+}
+
+/**
+ * A tiny copy of a picsum image as a data: URL, like the ones the
+ * browser pipeline stores (src/lib/images.ts). Null if it fails.
+ */
+async function picsumPlaceholder(url: string): Promise<string | null> {
+  const { width, height } = picsumSize(url);
+  const scale = 16 / Math.max(width, height);
+  const tinyUrl = url.replace(
+    /\/\d+\/\d+$/,
+    `/${Math.round(width * scale)}/${Math.round(height * scale)}`
+  );
+  try {
+    const res = await fetch(tinyUrl);
+    if (!res.ok) return null;
+    const bytes = Buffer.from(await res.arrayBuffer());
+    const dataUrl = `data:image/jpeg;base64,${bytes.toString("base64")}`;
+    return dataUrl.length <= 2048 ? dataUrl : null; // column limit
+  } catch {
+    return null;
+  }
+}
+
 // ── Main ──────────────────────────────────────────────────────────────
 
 const shouldClean = process.argv.includes("--clean");
@@ -141,25 +193,52 @@ async function seed() {
     console.log("✓ All existing posts deleted.\n");
   }
 
+  console.log("Fetching image placeholders...");
+  const placeholders = await Promise.all(
+    imagePosts.map(({ media_url }) => picsumPlaceholder(media_url))
+  );
+
   // Build all rows
   const rows = [
     ...textOnlyPosts.map((content) => ({
       content,
       media_url: null,
       media_type: null,
+      media_width: null,
+      media_height: null,
+      media_placeholder: null,
+      media_poster_url: null,
       likes: randomInt(0, 42),
       created_at: randomRecentDate(14), // spread over last 2 weeks
     })),
-    ...imagePosts.map(({ content, media_url }) => ({
+    ...videoPosts.map(({ content, clip }) => ({
       content,
-      media_url,
-      media_type: "image" as const,
+      media_url: `${SAMPLE_VIDEOS}/${clip}.mp4`,
+      media_type: "video" as const,
+      media_poster_url: `${SAMPLE_VIDEOS}/images/${clip}.jpg`,
+      media_width: 1280,
+      media_height: 720,
+      media_placeholder: null,
       likes: randomInt(0, 42),
       created_at: randomRecentDate(14),
     })),
+    ...imagePosts.map(({ content, media_url }, i) => {
+      const { width, height } = picsumSize(media_url);
+      return {
+        content,
+        media_url,
+        media_type: "image" as const,
+        media_width: width,
+        media_height: height,
+        media_placeholder: placeholders[i],
+        media_poster_url: null,
+        likes: randomInt(0, 42),
+        created_at: randomRecentDate(14),
+      };
+    }),
   ];
 
-  // Shuffle so text and image posts are interleaved
+  // Shuffle so text, image and video posts are interleaved
   rows.sort(() => Math.random() - 0.5);
 
   console.log(`Inserting ${rows.length} demo posts...`);
@@ -171,7 +250,7 @@ async function seed() {
     process.exit(1);
   }
 
-  console.log(`\n✅ Successfully inserted ${rows.length} posts (${textOnlyPosts.length} text-only, ${imagePosts.length} with images)`);
+  console.log(`\n✅ Successfully inserted ${rows.length} posts (${textOnlyPosts.length} text-only, ${imagePosts.length} with images, ${videoPosts.length} with videos)`);
   console.log("Open your app to see the feed filled with content!");
 }
 
@@ -0,0 +1,427 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { api } from "@/lib/api";
+import { loginUrl, signOut } from "@/lib/admin-client";
+import { useAdmin } from "@/lib/use-admin";
+import {
+  ANNOUNCEMENT_SEVERITIES,
+  Announcement,
+  AnnouncementSeverity,
+  MAX_BODY_CHARS,
+  MAX_TITLE_CHARS,
+} from "@/lib/announcements";
+import AdminAccount from "@/components/AdminAccount";
+
+type Schedule = "scheduled" | "active" | "ended";
+
+interface Draft {
+  title: string;
+  body: string;
+  severity: AnnouncementSeverity;
+  startsAt: string; // datetime-local value, empty = now
+  endsAt: string; // datetime-local value, empty = no end
+}
+
+const EMPTY_DRAFT: Draft = {
+  title: "",
+  body: "",
+  severity: "info",
+  startsAt: "",
+  endsAt: "",
+};
+
+const SEVERITY_STYLES: Record<AnnouncementSeverity, string> = {
+  info: "bg-sky-500/15 text-sky-300",
+  warning: "bg-amber-500/15 text-amber-300",
+  critical: "bg-red-500/15 text-red-300",
+};
+
+const SCHEDULE_STYLES: Record<Schedule, string> = {
+  scheduled: "bg-purple-500/15 text-purple-200",
+  active: "bg-emerald-500/15 text-emerald-300",
+  ended: "bg-white/10 text-purple-200/50",
+};
+
+function scheduleOf(a: Announcement): Schedule {
+  const now = Date.now();
+  if (Date.parse(a.starts_at) > now) return "scheduled";
+  if (a.ends_at && Date.parse(a.ends_at) <= now) return "ended";
+  return "active";
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// ============================================================
+// Announcements Page
+// ============================================================
+
+export default function AdminAnnouncementsPage() {
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const admin = useAdmin();
+
+  useEffect(() => {
+    api
+      .get<Announcement[]>("/api/admin/announcements")
+      .then(({ data, error }) => {
+        if (error) {
+          if (error.status === 401) window.location.assign(loginUrl());
+          else if (error.status === 403) setAuthorized(false);
+          else console.error("Error fetching announcements:", error);
+        } else {
+          setAuthorized(true);
+          setAnnouncements(data);
+        }
+        setLoading(false);
+      });
+  }, []);
+
+  const startEditing = (a: Announcement) => {
+    setEditingId(a.id);
+    setDraft({
+      title: a.title,
+      body: a.body,
+      severity: a.severity,
+      startsAt: toLocalInput(a.starts_at),
+      endsAt: toLocalInput(a.ends_at),
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const save = async () => {
+    const payload = {
+      title: draft.title,
+      body: draft.body,
+      severity: draft.severity,
+      starts_at: fromLocalInput(draft.startsAt),
+      ends_at: fromLocalInput(draft.endsAt),
+    };
+
+    setSaving(true);
+    const { data, error } = editingId
+      ? await api.patch<Announcement>(
+          `/api/admin/announcements/${editingId}`,
+          payload
+        )
+      : await api.post<Announcement>("/api/admin/announcements", payload);
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving announcement:", error);
+      alert(`Failed to save announcement: ${error.message}`);
+      return;
+    }
+    setAnnouncements((prev) =>
+      [data, ...prev.filter((a) => a.id !== data.id)].sort(
+        (a, b) => Date.parse(b.starts_at) - Date.parse(a.starts_at)
+      )
+    );
+    resetForm();
+  };
+
+  const deleteAnnouncement = async (id: string) => {
+    if (!confirm("Delete this announcement?")) return;
+    setBusyId(id);
+    const { error } = await api.delete<{ id: string }>(
+      `/api/admin/announcements/${id}`
+    );
+    setBusyId(null);
+
+    if (error) {
+      console.error("Error deleting announcement:", error);
+      alert(`Failed to delete announcement: ${error.message}`);
+      return;
+    }
+    setAnnouncements((prev) => prev.filter((a) => a.id !== id));
+    if (editingId === id) resetForm();
+  };
+
+  // ----- Access denied -----
+  if (authorized === null) return null; // still checking
+  if (!authorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
+          <p className="text-gray-400 text-sm">
+            Your admin role can&apos;t manage announcements.
+          </p>
+          <button
+            onClick={signOut}
+            className="mt-4 text-sm text-purple-400 hover:text-purple-300"
+          >
+            Sign in with another account
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // ----- Announcements -----
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-900 via-purple-950 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/5 backdrop-blur-xl border-b border-white/10 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-white">Announcements</h1>
+          <p className="text-xs text-purple-300/70">
+            Banners shown under the feed header while they&apos;re live
+          </p>
+        </div>
+        <div className="flex items-center gap-5">
+          <AdminAccount admin={admin} />
+          <Link
+            href="/admin/dashboard/metrics"
+            className="text-sm text-purple-300 font-medium hover:text-white transition-colors"
+          >
+            Metrics
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        {/* Create / edit */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+          className="grid grid-cols-2 gap-3 bg-white/5 border border-white/10 rounded-2xl p-4"
+        >
+          <FormField label="Title" className="col-span-2">
+            <input
+              value={draft.title}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  title: e.target.value.slice(0, MAX_TITLE_CHARS),
+                })
+              }
+              placeholder="Posting reopens Monday"
+              required
+              className={INPUT_CLASS}
+            />
+          </FormField>
+          <FormField label="Details (optional)" className="col-span-2">
+            <textarea
+              value={draft.body}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  body: e.target.value.slice(0, MAX_BODY_CHARS),
+                })
+              }
+              rows={3}
+              className={`${INPUT_CLASS} resize-none`}
+            />
+          </FormField>
+          <FormField label="Severity">
+            <select
+              value={draft.severity}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  severity: e.target.value as AnnouncementSeverity,
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              {ANNOUNCEMENT_SEVERITIES.map((severity) => (
+                <option key={severity} value={severity}>
+                  {severity}
+                </option>
+              ))}
+            </select>
+          </FormField>
+          <div />
+          <FormField label="Starts (empty = now)">
+            <input
+              type="datetime-local"
+              value={draft.startsAt}
+              onChange={(e) => setDraft({ ...draft, startsAt: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </FormField>
+          <FormField label="Ends (empty = until deleted)">
+            <input
+              type="datetime-local"
+              value={draft.endsAt}
+              onChange={(e) => setDraft({ ...draft, endsAt: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </FormField>
+          <div className="col-span-2 flex justify-end gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="rounded-lg px-3 py-1.5 text-[13px] text-purple-300/70 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving || !draft.title.trim()}
+              className="rounded-lg bg-purple-500/30 px-4 py-1.5 text-[13px] font-medium text-white hover:bg-purple-500/40 disabled:opacity-40 transition-colors"
+            >
+              {saving
+                ? "Saving..."
+                : editingId
+                  ? "Save changes"
+                  : "Create announcement"}
+            </button>
+          </div>
+        </form>
+
+        {/* List */}
+        {loading ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            Loading...
+          </p>
+        ) : announcements.length === 0 ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            No announcements yet.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {announcements.map((a) => {
+              const schedule = scheduleOf(a);
+              return (
+                <li
+                  key={a.id}
+                  className={`bg-white/5 backdrop-blur-lg border rounded-2xl p-4 space-y-2 ${
+                    editingId === a.id
+                      ? "border-purple-300/40"
+                      : "border-white/10"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                    <span
+                      className={`rounded-full px-2 py-0.5 font-semibold uppercase tracking-wide ${SCHEDULE_STYLES[schedule]}`}
+                    >
+                      {schedule}
+                    </span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 font-semibold uppercase tracking-wide ${SEVERITY_STYLES[a.severity]}`}
+                    >
+                      {a.severity}
+                    </span>
+                    <span className="text-purple-200/50">
+                      {formatDate(a.starts_at)} →{" "}
+                      {a.ends_at ? formatDate(a.ends_at) : "no end"}
+                    </span>
+                  </div>
+
+                  <p className="text-white text-[15px] font-semibold">
+                    {a.title}
+                  </p>
+                  {a.body && (
+                    <p className="text-purple-100/80 text-[13px] whitespace-pre-wrap wrap-break-word">
+                      {a.body}
+                    </p>
+                  )}
+
+                  <div className="flex gap-2 pt-1">
+                    <ActionButton
+                      label="Edit"
+                      disabled={busyId === a.id}
+                      onClick={() => startEditing(a)}
+                    />
+                    <ActionButton
+                      label="Delete"
+                      tone="bad"
+                      disabled={busyId === a.id}
+                      onClick={() => deleteAnnouncement(a.id)}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ============================================================
+// Reusable Components
+// ============================================================
+
+const INPUT_CLASS =
+  "w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-[13px] text-white placeholder-purple-200/30 outline-none scheme-dark";
+
+function FormField({
+  label,
+  className = "",
+  children,
+}: {
+  label: string;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className={`block ${className}`}>
+      <span className="text-[11px] font-medium text-purple-200/50 uppercase tracking-wide">
+        {label}
+      </span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+function ActionButton({
+  label,
+  tone = "neutral",
+  disabled,
+  onClick,
+}: {
+  label: string;
+  tone?: "neutral" | "bad";
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`rounded-lg px-3 py-1.5 text-[13px] font-medium transition-colors disabled:opacity-40 ${
+        tone === "bad"
+          ? "bg-red-500/20 text-red-200 hover:bg-red-500/30"
+          : "bg-purple-500/20 text-purple-100 hover:bg-purple-500/30"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
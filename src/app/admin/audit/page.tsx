@@ -0,0 +1,350 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { api } from "@/lib/api";
+import { loginUrl, signOut } from "@/lib/admin-client";
+import { useAdmin } from "@/lib/use-admin";
+import { AUDIT_ACTIONS, AuditAction, AuditEntry } from "@/lib/audit";
+import { Page } from "@/lib/feed";
+import { timeAgo } from "@/lib/format";
+import AdminAccount from "@/components/AdminAccount";
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS = Object.fromEntries(
+  AUDIT_ACTIONS.map((a) => [a.value, a.label])
+);
+
+interface Filters {
+  actor: string;
+  action: AuditAction | "";
+  from: string;
+  to: string;
+}
+
+const NO_FILTERS: Filters = { actor: "", action: "", from: "", to: "" };
+
+function fetchPage(filters: Filters, cursor: string | null) {
+  return api.get<Page<AuditEntry>>("/api/admin/audit", {
+    query: {
+      actor: filters.actor.trim() || null,
+      action: filters.action || null,
+      from: filters.from || null,
+      to: filters.to || null,
+      cursor,
+      limit: PAGE_SIZE,
+    },
+  });
+}
+
+// ============================================================
+// Audit Log Page
+// ============================================================
+
+export default function AuditLogPage() {
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+  const [draft, setDraft] = useState<Filters>(NO_FILTERS); // form state
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS); // applied
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const admin = useAdmin();
+
+  // First page; callers set `loading` before changing filters
+  useEffect(() => {
+    let active = true;
+    fetchPage(filters, null).then(({ data, error }) => {
+      if (!active) return;
+      if (error) {
+        if (error.status === 401) window.location.assign(loginUrl());
+        else if (error.status === 403) setAuthorized(false);
+        else {
+          console.error("Error fetching audit log:", error);
+          setAuthorized(true);
+          setError(error.message);
+        }
+      } else {
+        setAuthorized(true);
+        setError(null);
+        setEntries(data.items);
+        setCursor(data.cursor);
+        setHasMore(data.hasMore);
+      }
+      setLoading(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, [filters]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    const { data, error } = await fetchPage(filters, cursor);
+    setLoadingMore(false);
+
+    if (error) {
+      console.error("Error fetching audit log:", error);
+      return;
+    }
+    setEntries((prev) => [...prev, ...data.items]);
+    setCursor(data.cursor);
+    setHasMore(data.hasMore);
+  };
+
+  const applyFilters = (next: Filters) => {
+    setDraft(next);
+    setLoading(true);
+    setFilters({ ...next });
+  };
+
+  // ----- Access denied -----
+  if (authorized === null) return null; // still checking
+  if (!authorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
+          <p className="text-gray-400 text-sm">
+            Only owners can view the audit log.
+          </p>
+          <button
+            onClick={signOut}
+            className="mt-4 text-sm text-purple-400 hover:text-purple-300"
+          >
+            Sign in with another account
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // ----- Log -----
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-900 via-purple-950 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/5 backdrop-blur-xl border-b border-white/10 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-white">Audit Log</h1>
+          <p className="text-xs text-purple-300/70">
+            Every moderator and admin action, newest first
+          </p>
+        </div>
+        <div className="flex items-center gap-5">
+          <AdminAccount admin={admin} />
+          <Link
+            href="/admin/dashboard/metrics"
+            className="text-sm text-purple-300 font-medium hover:text-white transition-colors"
+          >
+            Metrics
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* Filters */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters(draft);
+          }}
+          className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end bg-white/5 border border-white/10 rounded-2xl p-4"
+        >
+          <FilterField label="Actor email">
+            <input
+              type="email"
+              value={draft.actor}
+              onChange={(e) => setDraft({ ...draft, actor: e.target.value })}
+              placeholder="Anyone"
+              className={INPUT_CLASS}
+            />
+          </FilterField>
+          <FilterField label="Action">
+            <select
+              value={draft.action}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  action: e.target.value as Filters["action"],
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              <option value="">All actions</option>
+              {AUDIT_ACTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </FilterField>
+          <FilterField label="From">
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </FilterField>
+          <FilterField label="To">
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </FilterField>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 rounded-lg bg-purple-500/30 py-1.5 text-[13px] font-medium text-white hover:bg-purple-500/40 transition-colors"
+            >
+              Apply
+            </button>
+            <button
+              type="button"
+              onClick={() => applyFilters(NO_FILTERS)}
+              className="rounded-lg px-2 py-1.5 text-[13px] text-purple-300/70 hover:text-white transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        {error && <p className="text-center text-sm text-red-300">{error}</p>}
+
+        {loading ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            Loading...
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            No matching actions.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => (
+              <AuditRow key={entry.id} entry={entry} />
+            ))}
+          </ul>
+        )}
+
+        {!loading && hasMore && (
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="block mx-auto text-sm text-purple-300 font-medium hover:text-white disabled:opacity-40 transition-colors"
+          >
+            {loadingMore ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ============================================================
+// Reusable Components
+// ============================================================
+
+const INPUT_CLASS =
+  "w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-[13px] text-white placeholder-purple-200/30 outline-none scheme-dark";
+
+function FilterField({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="block">
+      <span className="text-[11px] font-medium text-purple-200/50 uppercase tracking-wide">
+        {label}
+      </span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+function AuditRow({ entry }: { entry: AuditEntry }) {
+  const changes = diffSnapshots(entry.before, entry.after);
+
+  return (
+    <li className="bg-white/5 backdrop-blur-lg border border-white/10 rounded-2xl p-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-[13px]">
+        <span className="font-semibold text-white">
+          {ACTION_LABELS[entry.action] ?? entry.action}
+        </span>
+        <span className="text-purple-200/50">·</span>
+        {entry.target_type === "post" ? (
+          <a
+            href={`/p/${entry.target_id}`}
+            target="_blank"
+            rel="noreferrer"
+            className="font-mono text-[12px] text-purple-300/80 hover:text-white"
+          >
+            post {entry.target_id.slice(0, 8)} ↗
+          </a>
+        ) : (
+          <span className="font-mono text-[12px] text-purple-300/80">
+            {entry.target_type} {entry.target_id}
+          </span>
+        )}
+        <span
+          className="ml-auto text-[12px] text-purple-200/50"
+          title={new Date(entry.created_at).toLocaleString()}
+        >
+          {timeAgo(entry.created_at)}
+        </span>
+      </div>
+
+      <p className="text-[12px] text-purple-200/60">
+        by {entry.actor_email ?? "deleted admin"} ({entry.actor_role})
+      </p>
+
+      {changes.length > 0 && (
+        <ul className="space-y-0.5 font-mono text-[12px]">
+          {changes.map(({ key, before, after }) => (
+            <li key={key} className="text-purple-100/80">
+              {key}: <span className="text-red-300/80">{before}</span> →{" "}
+              <span className="text-emerald-300/80">{after}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Fields that differ between two snapshots, formatted for display. */
+function diffSnapshots(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): { key: string; before: string; after: string }[] {
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  keys.delete("updated_at"); // always changes; the entry has its own time
+
+  return [...keys]
+    .map((key) => ({
+      key,
+      before: formatValue(before?.[key]),
+      after: formatValue(after?.[key]),
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
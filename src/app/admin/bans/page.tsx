@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { api } from "@/lib/api";
+import { loginUrl, signOut } from "@/lib/admin-client";
+import { useAdmin } from "@/lib/use-admin";
+import { Ban, BanKind, isBanActive } from "@/lib/bans";
+import { timeAgo } from "@/lib/format";
+import AdminAccount from "@/components/AdminAccount";
+
+const KIND_STYLES: Record<BanKind, string> = {
+  ban: "bg-red-500/15 text-red-300",
+  shadowban: "bg-white/10 text-purple-200/80",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// ============================================================
+// Bans Page
+// ============================================================
+
+export default function AdminBansPage() {
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+  const [bans, setBans] = useState<Ban[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInactive, setShowInactive] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const admin = useAdmin();
+
+  useEffect(() => {
+    api.get<Ban[]>("/api/admin/bans").then(({ data, error }) => {
+      if (error) {
+        if (error.status === 401) window.location.assign(loginUrl());
+        else if (error.status === 403) setAuthorized(false);
+        else console.error("Error fetching bans:", error);
+      } else {
+        setAuthorized(true);
+        setBans(data);
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const revoke = async (banId: string) => {
+    if (!confirm("Lift this ban?")) return;
+    setBusyId(banId);
+    const { data, error } = await api.delete<Ban>(`/api/admin/bans/${banId}`);
+    setBusyId(null);
+
+    if (error) {
+      console.error("Error lifting ban:", error);
+      alert(`Failed to lift ban: ${error.message}`);
+      return;
+    }
+    setBans((prev) => prev.map((b) => (b.id === banId ? data : b)));
+  };
+
+  const visible = showInactive ? bans : bans.filter((b) => isBanActive(b));
+
+  // ----- Access denied -----
+  if (authorized === null) return null; // still checking
+  if (!authorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
+          <p className="text-gray-400 text-sm">
+            Your admin role can&apos;t manage bans.
+          </p>
+          <button
+            onClick={signOut}
+            className="mt-4 text-sm text-purple-400 hover:text-purple-300"
+          >
+            Sign in with another account
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // ----- Bans -----
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-900 via-purple-950 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/5 backdrop-blur-xl border-b border-white/10 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-white">Bans</h1>
+          <p className="text-xs text-purple-300/70">
+            Issued from a post in Posts or Moderation
+          </p>
+        </div>
+        <div className="flex items-center gap-5">
+          <AdminAccount admin={admin} />
+          <Link
+            href="/admin/dashboard/metrics"
+            className="text-sm text-purple-300 font-medium hover:text-white transition-colors"
+          >
+            Metrics
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <label className="flex items-center gap-2 text-sm text-purple-200/70">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="accent-purple-400"
+          />
+          Show expired and lifted bans
+        </label>
+
+        {loading ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            Loading...
+          </p>
+        ) : visible.length === 0 ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            No active bans.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {visible.map((ban) => {
+              const active = isBanActive(ban);
+              return (
+                <li
+                  key={ban.id}
+                  className={`bg-white/5 backdrop-blur-lg border border-white/10 rounded-2xl p-4 space-y-2 ${
+                    active ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                    <span
+                      className={`rounded-full px-2 py-0.5 font-semibold uppercase tracking-wide ${KIND_STYLES[ban.kind]}`}
+                    >
+                      {ban.kind}
+                    </span>
+                    {ban.ip_hash && (
+                      <span className="rounded-full bg-amber-500/15 px-2 py-0.5 font-semibold text-amber-300">
+                        + network
+                      </span>
+                    )}
+                    <span className="font-mono text-purple-200/50">
+                      device {ban.user_pseudo_id.slice(0, 8)}
+                    </span>
+                    <span className="text-purple-200/50">
+                      · {timeAgo(ban.created_at)} ·{" "}
+                      {ban.revoked_at
+                        ? `lifted ${formatDate(ban.revoked_at)}`
+                        : ban.expires_at
+                          ? `${active ? "until" : "expired"} ${formatDate(ban.expires_at)}`
+                          : "until lifted"}
+                    </span>
+                    {ban.post_id && (
+                      <a
+                        href={`/p/${ban.post_id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="ml-auto text-purple-300/60 hover:text-white"
+                      >
+                        Post ↗
+                      </a>
+                    )}
+                  </div>
+
+                  <p className="text-white text-[14px] whitespace-pre-wrap wrap-break-word">
+                    {ban.reason}
+                  </p>
+
+                  {active && (
+                    <button
+                      onClick={() => revoke(ban.id)}
+                      disabled={busyId === ban.id}
+                      className="rounded-lg px-3 py-1.5 text-[13px] font-medium transition-colors disabled:opacity-40 bg-purple-500/20 text-purple-100 hover:bg-purple-500/30"
+                    >
+                      Lift ban
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
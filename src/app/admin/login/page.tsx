@@ -0,0 +1,135 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { safeNextPath } from "@/lib/admin";
+import { sendMagicLink, signInWithPassword, signOut } from "@/lib/admin-client";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_admin: "This account doesn't have admin access.",
+  link_invalid: "That sign-in link is invalid or has expired.",
+};
+
+// ============================================================
+// Admin Login Page
+// ============================================================
+
+export default function AdminLoginPage() {
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense fallback={null}>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
+  const router = useRouter();
+  const params = useSearchParams();
+  const next = safeNextPath(params.get("next"));
+  const initialError = params.get("error");
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(
+    initialError ? (ERROR_MESSAGES[initialError] ?? null) : null
+  );
+  const [linkSent, setLinkSent] = useState(false);
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const { error } = await signInWithPassword(email.trim(), password);
+    setSubmitting(false);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    router.replace(next);
+  };
+
+  const handleMagicLink = async () => {
+    if (!email.trim()) {
+      setError("Enter your email first.");
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    const { error } = await sendMagicLink(email.trim(), next);
+    setSubmitting(false);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setLinkSent(true);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-slate-900 via-purple-950 to-slate-900 px-4">
+      <div className="w-full max-w-sm bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+        <h1 className="text-xl font-bold text-white">Admin sign in</h1>
+        <p className="text-xs text-purple-300/70 mb-6">
+          Metrics, moderation and feature flags
+        </p>
+
+        {linkSent ? (
+          <p className="text-sm text-emerald-300">
+            Check <span className="font-semibold">{email}</span> for a sign-in
+            link.
+          </p>
+        ) : (
+          <form onSubmit={handlePassword} className="space-y-3">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              required
+              className="w-full rounded-lg bg-white/5 border border-white/10 px-3 py-2 text-sm text-white placeholder-purple-200/30 outline-none"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+              className="w-full rounded-lg bg-white/5 border border-white/10 px-3 py-2 text-sm text-white placeholder-purple-200/30 outline-none"
+            />
+
+            {error && <p className="text-[13px] text-red-300">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting || !email || !password}
+              className="w-full rounded-lg bg-purple-500/30 py-2 text-sm font-semibold text-white hover:bg-purple-500/40 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting ? "Signing in..." : "Sign in"}
+            </button>
+            <button
+              type="button"
+              onClick={handleMagicLink}
+              disabled={submitting}
+              className="w-full text-[13px] text-purple-300 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              Email me a sign-in link instead
+            </button>
+          </form>
+        )}
+
+        {initialError === "not_admin" && (
+          <button
+            onClick={signOut}
+            className="mt-4 text-[13px] text-purple-300/60 hover:text-white transition-colors"
+          >
+            Sign out
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
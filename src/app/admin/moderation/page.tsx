@@ -0,0 +1,519 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { loginUrl, signOut } from "@/lib/admin-client";
+import { useAdmin } from "@/lib/use-admin";
+import { REPORT_REASONS } from "@/lib/reports";
+import { hasImage, hasVideo, postImages, timeAgo } from "@/lib/format";
+import {
+  CommentStatus,
+  HeldComment,
+  ModerationItem,
+  PostStatus,
+} from "@/lib/types";
+import AdminAccount from "@/components/AdminAccount";
+import BanAuthorButton from "@/components/BanAuthorButton";
+
+type View = "queue" | "pending" | "comments" | "removed";
+type Action = "approve" | "remove" | "restore";
+
+const VIEWS: { value: View; label: string }[] = [
+  { value: "queue", label: "Reported & hidden" },
+  { value: "pending", label: "Pending approval" },
+  { value: "comments", label: "Held comments" },
+  { value: "removed", label: "Removed" },
+];
+
+const EMPTY_MESSAGES: Record<View, string> = {
+  queue: "Nothing to review. 🎉",
+  pending: "No posts waiting for approval.",
+  comments: "No comments waiting for approval.",
+  removed: "No removed posts.",
+};
+
+const REASON_LABELS = Object.fromEntries(
+  REPORT_REASONS.map((r) => [r.value, r.label])
+);
+
+const STATUS_STYLES: Record<PostStatus, string> = {
+  published: "bg-emerald-500/15 text-emerald-300",
+  pending: "bg-sky-500/15 text-sky-300",
+  hidden: "bg-amber-500/15 text-amber-300",
+  removed: "bg-red-500/15 text-red-300",
+};
+
+// ============================================================
+// Moderation Page
+// ============================================================
+
+export default function ModerationPage() {
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+  const [view, setView] = useState<View>("queue");
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set()); // pending view
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [reloads, setReloads] = useState(0); // bump to refetch
+  const admin = useAdmin();
+
+  // Callers set `loading` before changing view/reloads. Held
+  // comments load in their own list (HeldComments below).
+  useEffect(() => {
+    if (view === "comments") return;
+    let active = true;
+    api
+      .get<ModerationItem[]>("/api/admin/moderation", {
+        query: { view },
+      })
+      .then(({ data, error }) => {
+        if (!active) return; // view changed meanwhile
+        if (error) {
+          if (error.status === 401) window.location.assign(loginUrl());
+          else if (error.status === 403) setAuthorized(false);
+          else console.error("Error fetching moderation queue:", error);
+        } else {
+          setAuthorized(true);
+          setItems(data);
+          setSelected(new Set());
+        }
+        setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [view, reloads]);
+
+  const moderate = async (postId: string, action: Action) => {
+    if (action === "remove" && !confirm("Remove this post for everyone?")) {
+      return;
+    }
+    setBusyId(postId);
+    const { error } = await api.post<{ status: PostStatus }>(
+      `/api/admin/posts/${postId}/moderation`,
+      { action }
+    );
+    setBusyId(null);
+
+    if (error) {
+      console.error("Error moderating post:", error);
+      alert(`Failed to ${action} post: ${error.message}`);
+      return;
+    }
+    // Every action resolves the item for the current view
+    setItems((prev) => prev.filter((item) => item.post.id !== postId));
+    setSelected((prev) => {
+      const next = new Set(prev);
+      next.delete(postId);
+      return next;
+    });
+  };
+
+  // Pending view: approve or reject every selected post at once
+  const moderateSelected = async (action: "approve" | "remove") => {
+    const ids = [...selected];
+    if (ids.length === 0) return;
+    if (
+      action === "remove" &&
+      !confirm(`Reject ${ids.length} post${ids.length !== 1 ? "s" : ""}?`)
+    ) {
+      return;
+    }
+    setBulkBusy(true);
+    const { error } = await api.post<{ id: string; status: PostStatus }[]>(
+      "/api/admin/posts/moderation",
+      { ids, action }
+    );
+    setBulkBusy(false);
+
+    if (error) {
+      console.error("Error moderating posts:", error);
+      alert(
+        `Failed to ${action === "remove" ? "reject" : action} posts: ${error.message}`
+      );
+      return;
+    }
+    setItems((prev) => prev.filter((item) => !selected.has(item.post.id)));
+    setSelected(new Set());
+  };
+
+  const toggleSelected = (postId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(postId)) next.delete(postId);
+      else next.add(postId);
+      return next;
+    });
+
+  const allSelected = items.length > 0 && selected.size === items.length;
+
+  // ----- Access denied -----
+  if (authorized === null) return null; // still checking
+  if (!authorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
+          <p className="text-gray-400 text-sm">
+            Your admin role can&apos;t view the moderation queue.
+          </p>
+          <button
+            onClick={signOut}
+            className="mt-4 text-sm text-purple-400 hover:text-purple-300"
+          >
+            Sign in with another account
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // ----- Queue -----
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-900 via-purple-950 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/5 backdrop-blur-xl border-b border-white/10 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-white">Moderation</h1>
+          <p className="text-xs text-purple-300/70">
+            Reported posts hide automatically until reviewed
+          </p>
+        </div>
+        <div className="flex items-center gap-5">
+          <AdminAccount admin={admin} />
+          <button
+            onClick={() => {
+              setLoading(view !== "comments");
+              setReloads((n) => n + 1);
+            }}
+            className="text-sm text-purple-300 font-medium hover:text-white transition-colors"
+          >
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        {/* View tabs */}
+        <div className="flex gap-2">
+          {VIEWS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => {
+                if (value === view) return;
+                if (value === "comments") setItems([]);
+                setLoading(value !== "comments");
+                setView(value);
+              }}
+              className={`rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+                view === value
+                  ? "bg-purple-500/30 text-white"
+                  : "bg-white/5 text-purple-200/60 hover:bg-white/10"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Bulk actions */}
+        {view === "pending" && items.length > 0 && (
+          <div className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-2xl px-4 py-3">
+            <label className="flex items-center gap-2 text-sm text-purple-200/70">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() =>
+                  setSelected(
+                    allSelected
+                      ? new Set()
+                      : new Set(items.map((item) => item.post.id))
+                  )
+                }
+                className="accent-purple-400"
+              />
+              {selected.size > 0 ? `${selected.size} selected` : "Select all"}
+            </label>
+            <div className="ml-auto flex gap-2">
+              <ActionButton
+                label="Approve selected"
+                tone="good"
+                disabled={selected.size === 0 || bulkBusy}
+                onClick={() => moderateSelected("approve")}
+              />
+              <ActionButton
+                label="Reject selected"
+                tone="bad"
+                disabled={selected.size === 0 || bulkBusy}
+                onClick={() => moderateSelected("remove")}
+              />
+            </div>
+          </div>
+        )}
+
+        {view === "comments" && <HeldComments key={reloads} />}
+
+        {view !== "comments" && !loading && items.length === 0 && (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            {EMPTY_MESSAGES[view]}
+          </p>
+        )}
+
+        {items.map(({ post, reasons, details }) => (
+          <div
+            key={post.id}
+            className="bg-white/5 backdrop-blur-lg border border-white/10 rounded-2xl p-4 space-y-3"
+          >
+            <div className="flex items-center gap-2 text-[11px]">
+              {view === "pending" && (
+                <input
+                  type="checkbox"
+                  checked={selected.has(post.id)}
+                  onChange={() => toggleSelected(post.id)}
+                  className="accent-purple-400"
+                  aria-label="Select post"
+                />
+              )}
+              <span
+                className={`rounded-full px-2 py-0.5 font-semibold uppercase tracking-wide ${STATUS_STYLES[post.status]}`}
+              >
+                {post.status}
+              </span>
+              <span className="text-purple-200/50">
+                {post.report_count} open report
+                {post.report_count !== 1 ? "s" : ""} ·{" "}
+                {timeAgo(post.created_at)}
+              </span>
+              <a
+                href={`/p/${post.id}`}
+                target="_blank"
+                rel="noreferrer"
+                className="ml-auto text-purple-300/60 hover:text-white"
+              >
+                Permalink ↗
+              </a>
+            </div>
+
+            <p className="text-white text-[15px] whitespace-pre-wrap wrap-break-word">
+              {post.content}
+            </p>
+
+            {hasImage(post) && (
+              <div className="flex gap-2 overflow-x-auto">
+                {postImages(post).map((image) => (
+                  <img
+                    key={image.position}
+                    src={image.url}
+                    alt=""
+                    className="max-h-48 rounded-xl object-contain"
+                  />
+                ))}
+              </div>
+            )}
+            {hasVideo(post) && (
+              <video
+                src={post.media_url!}
+                poster={post.media_poster_url ?? undefined}
+                preload="none"
+                controls
+                className="max-h-48 rounded-xl object-contain"
+              />
+            )}
+
+            {post.filter_flags.length > 0 && (
+              <p className="text-[12px] text-amber-300/80">
+                Content filter: {post.filter_flags.join(", ")}
+              </p>
+            )}
+
+            {Object.keys(reasons).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(reasons).map(([reason, count]) => (
+                  <span
+                    key={reason}
+                    className="rounded-full bg-white/10 px-2.5 py-1 text-[12px] text-purple-100"
+                  >
+                    {REASON_LABELS[reason] ?? reason} × {count}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {details.length > 0 && (
+              <ul className="space-y-1 text-[13px] text-purple-200/70">
+                {details.map((note, i) => (
+                  <li key={i}>“{note}”</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2 pt-1">
+              {post.status !== "removed" && (
+                <>
+                  <ActionButton
+                    label={post.status === "hidden" ? "Approve & show" : "Approve"}
+                    tone="good"
+                    disabled={busyId === post.id}
+                    onClick={() => moderate(post.id, "approve")}
+                  />
+                  <ActionButton
+                    label={post.status === "pending" ? "Reject" : "Remove"}
+                    tone="bad"
+                    disabled={busyId === post.id}
+                    onClick={() => moderate(post.id, "remove")}
+                  />
+                </>
+              )}
+              {post.status === "removed" && (
+                <ActionButton
+                  label="Restore"
+                  tone="good"
+                  disabled={busyId === post.id}
+                  onClick={() => moderate(post.id, "restore")}
+                />
+              )}
+              <div className="ml-auto">
+                <BanAuthorButton
+                  postId={post.id}
+                  disabled={busyId === post.id}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </main>
+    </div>
+  );
+}
+
+// ============================================================
+// Held comments
+// Comments the content filter flagged for review; only their
+// author sees them until approved here.
+// ============================================================
+
+function HeldComments() {
+  const [comments, setComments] = useState<HeldComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.get<HeldComment[]>("/api/admin/comments").then(({ data, error }) => {
+      if (error) console.error("Error fetching held comments:", error);
+      else setComments(data);
+      setLoading(false);
+    });
+  }, []);
+
+  const moderate = async (commentId: string, action: "approve" | "remove") => {
+    setBusyId(commentId);
+    const { error } = await api.post<{ status: CommentStatus }>(
+      `/api/admin/comments/${commentId}/moderation`,
+      { action }
+    );
+    setBusyId(null);
+
+    if (error) {
+      console.error("Error moderating comment:", error);
+      alert(
+        `Failed to ${action === "remove" ? "reject" : action} comment: ${error.message}`
+      );
+      return;
+    }
+    setComments((prev) => prev.filter((c) => c.id !== commentId));
+  };
+
+  if (!loading && comments.length === 0) {
+    return (
+      <p className="text-center text-sm text-purple-300/50 mt-10">
+        {EMPTY_MESSAGES.comments}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {comments.map((comment) => (
+        <div
+          key={comment.id}
+          className="bg-white/5 backdrop-blur-lg border border-white/10 rounded-2xl p-4 space-y-3"
+        >
+          <div className="flex items-center gap-2 text-[11px]">
+            <span
+              className={`rounded-full px-2 py-0.5 font-semibold uppercase tracking-wide ${STATUS_STYLES.pending}`}
+            >
+              comment
+            </span>
+            <span className="text-purple-200/50">
+              {timeAgo(comment.created_at)}
+            </span>
+            <a
+              href={`/p/${comment.post_id}`}
+              target="_blank"
+              rel="noreferrer"
+              className="ml-auto text-purple-300/60 hover:text-white"
+            >
+              On post ↗
+            </a>
+          </div>
+
+          <p className="text-white text-[15px] whitespace-pre-wrap wrap-break-word">
+            {comment.content}
+          </p>
+
+          {comment.filter_flags.length > 0 && (
+            <p className="text-[12px] text-amber-300/80">
+              Content filter: {comment.filter_flags.join(", ")}
+            </p>
+          )}
+
+          <div className="flex gap-2 pt-1">
+            <ActionButton
+              label="Approve"
+              tone="good"
+              disabled={busyId === comment.id}
+              onClick={() => moderate(comment.id, "approve")}
+            />
+            <ActionButton
+              label="Reject"
+              tone="bad"
+              disabled={busyId === comment.id}
+              onClick={() => moderate(comment.id, "remove")}
+            />
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+// ============================================================
+// Reusable Components
+// ============================================================
+
+function ActionButton({
+  label,
+  tone,
+  disabled,
+  onClick,
+}: {
+  label: string;
+  tone: "good" | "bad";
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`rounded-lg px-3 py-1.5 text-[13px] font-medium transition-colors disabled:opacity-40 ${
+        tone === "good"
+          ? "bg-emerald-500/20 text-emerald-200 hover:bg-emerald-500/30"
+          : "bg-red-500/20 text-red-200 hover:bg-red-500/30"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
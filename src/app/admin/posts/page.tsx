@@ -0,0 +1,522 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { api } from "@/lib/api";
+import { hasRole } from "@/lib/admin";
+import { loginUrl, signOut } from "@/lib/admin-client";
+import { useAdmin } from "@/lib/use-admin";
+import { Page } from "@/lib/feed";
+import { hasImage, hasVideo, postImages, timeAgo } from "@/lib/format";
+import { AdminPost, PostStatus } from "@/lib/types";
+import AdminAccount from "@/components/AdminAccount";
+import BanAuthorButton from "@/components/BanAuthorButton";
+
+const PAGE_SIZE = 30;
+
+interface Filters {
+  q: string;
+  status: PostStatus | "";
+  image: "" | "true" | "false";
+  minLikes: string;
+  maxLikes: string;
+  from: string;
+  to: string;
+}
+
+const NO_FILTERS: Filters = {
+  q: "",
+  status: "",
+  image: "",
+  minLikes: "",
+  maxLikes: "",
+  from: "",
+  to: "",
+};
+
+const STATUS_STYLES: Record<PostStatus, string> = {
+  published: "bg-emerald-500/15 text-emerald-300",
+  pending: "bg-sky-500/15 text-sky-300",
+  hidden: "bg-amber-500/15 text-amber-300",
+  removed: "bg-red-500/15 text-red-300",
+};
+
+function fetchPage(filters: Filters, cursor: string | null) {
+  return api.get<Page<AdminPost>>("/api/admin/posts", {
+    query: {
+      q: filters.q.trim() || null,
+      status: filters.status || null,
+      has_image: filters.image || null,
+      min_likes: filters.minLikes || null,
+      max_likes: filters.maxLikes || null,
+      from: filters.from || null,
+      to: filters.to || null,
+      cursor,
+      limit: PAGE_SIZE,
+    },
+  });
+}
+
+// ============================================================
+// Post Browser Page
+// ============================================================
+
+export default function AdminPostsPage() {
+  const [authorized, setAuthorized] = useState<boolean | null>(null);
+  const [draft, setDraft] = useState<Filters>(NO_FILTERS); // form state
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS); // applied
+  const [posts, setPosts] = useState<AdminPost[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const admin = useAdmin();
+  const canDelete = !!admin && hasRole(admin.role, "owner");
+
+  // First page; callers set `loading` before changing filters
+  useEffect(() => {
+    let active = true;
+    fetchPage(filters, null).then(({ data, error }) => {
+      if (!active) return;
+      if (error) {
+        if (error.status === 401) window.location.assign(loginUrl());
+        else if (error.status === 403) setAuthorized(false);
+        else {
+          console.error("Error fetching posts:", error);
+          setAuthorized(true);
+          setError(error.message);
+        }
+      } else {
+        setAuthorized(true);
+        setError(null);
+        setPosts(data.items);
+        setCursor(data.cursor);
+        setHasMore(data.hasMore);
+      }
+      setLoading(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, [filters]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    const { data, error } = await fetchPage(filters, cursor);
+    setLoadingMore(false);
+
+    if (error) {
+      console.error("Error fetching posts:", error);
+      return;
+    }
+    setPosts((prev) => {
+      const existingIds = new Set(prev.map((p) => p.id));
+      return [...prev, ...data.items.filter((p) => !existingIds.has(p.id))];
+    });
+    setCursor(data.cursor);
+    setHasMore(data.hasMore);
+  };
+
+  const applyFilters = (next: Filters) => {
+    setDraft(next);
+    setLoading(true);
+    setFilters({ ...next });
+  };
+
+  const updatePost = async (
+    postId: string,
+    changes: { pinned?: boolean; featured?: boolean }
+  ) => {
+    setBusyId(postId);
+    const { data, error } = await api.patch<AdminPost>(
+      `/api/admin/posts/${postId}`,
+      changes
+    );
+    setBusyId(null);
+
+    if (error) {
+      console.error("Error updating post:", error);
+      alert(`Failed to update post: ${error.message}`);
+      return;
+    }
+    setPosts((prev) => prev.map((p) => (p.id === postId ? data : p)));
+  };
+
+  const deletePost = async (postId: string) => {
+    if (!confirm("Delete this post permanently? This can't be undone.")) {
+      return;
+    }
+    setBusyId(postId);
+    const { error } = await api.delete<{ id: string }>(
+      `/api/admin/posts/${postId}`
+    );
+    setBusyId(null);
+
+    if (error) {
+      console.error("Error deleting post:", error);
+      alert(`Failed to delete post: ${error.message}`);
+      return;
+    }
+    setPosts((prev) => prev.filter((p) => p.id !== postId));
+  };
+
+  // ----- Access denied -----
+  if (authorized === null) return null; // still checking
+  if (!authorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
+          <p className="text-gray-400 text-sm">
+            Your admin role can&apos;t manage posts.
+          </p>
+          <button
+            onClick={signOut}
+            className="mt-4 text-sm text-purple-400 hover:text-purple-300"
+          >
+            Sign in with another account
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // ----- Browser -----
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-900 via-purple-950 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/5 backdrop-blur-xl border-b border-white/10 px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-white">Posts</h1>
+          <p className="text-xs text-purple-300/70">
+            Search, pin, feature and delete posts
+          </p>
+        </div>
+        <div className="flex items-center gap-5">
+          <AdminAccount admin={admin} />
+          <Link
+            href="/admin/dashboard/metrics"
+            className="text-sm text-purple-300 font-medium hover:text-white transition-colors"
+          >
+            Metrics
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {/* Filters */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters(draft);
+          }}
+          className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end bg-white/5 border border-white/10 rounded-2xl p-4"
+        >
+          <FilterField label="Search" className="col-span-2">
+            <input
+              type="search"
+              value={draft.q}
+              onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+              placeholder="Text in the post"
+              className={INPUT_CLASS}
+            />
+          </FilterField>
+          <FilterField label="Status">
+            <select
+              value={draft.status}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  status: e.target.value as Filters["status"],
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              <option value="">Any status</option>
+              {Object.keys(STATUS_STYLES).map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </FilterField>
+          <FilterField label="Image">
+            <select
+              value={draft.image}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  image: e.target.value as Filters["image"],
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              <option value="">Any</option>
+              <option value="true">With image</option>
+              <option value="false">Text only</option>
+            </select>
+          </FilterField>
+          <FilterField label="Likes">
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                value={draft.minLikes}
+                onChange={(e) =>
+                  setDraft({ ...draft, minLikes: e.target.value })
+                }
+                placeholder="Min"
+                className={INPUT_CLASS}
+              />
+              <span className="text-purple-200/40">–</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.maxLikes}
+                onChange={(e) =>
+                  setDraft({ ...draft, maxLikes: e.target.value })
+                }
+                placeholder="Max"
+                className={INPUT_CLASS}
+              />
+            </div>
+          </FilterField>
+          <FilterField label="From">
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </FilterField>
+          <FilterField label="To">
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </FilterField>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 rounded-lg bg-purple-500/30 py-1.5 text-[13px] font-medium text-white hover:bg-purple-500/40 transition-colors"
+            >
+              Apply
+            </button>
+            <button
+              type="button"
+              onClick={() => applyFilters(NO_FILTERS)}
+              className="rounded-lg px-2 py-1.5 text-[13px] text-purple-300/70 hover:text-white transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        {error && <p className="text-center text-sm text-red-300">{error}</p>}
+
+        {loading ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            Loading...
+          </p>
+        ) : posts.length === 0 ? (
+          <p className="text-center text-sm text-purple-300/50 mt-10">
+            No matching posts.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {posts.map((post) => (
+              <li
+                key={post.id}
+                className={`bg-white/5 backdrop-blur-lg border rounded-2xl p-4 flex gap-4 ${
+                  post.featured ? "border-amber-300/40" : "border-white/10"
+                }`}
+              >
+                {hasImage(post) && (
+                  <div className="relative h-20 w-20 shrink-0">
+                    <img
+                      src={post.media_url!}
+                      alt=""
+                      className="h-full w-full rounded-xl object-cover"
+                    />
+                    {postImages(post).length > 1 && (
+                      <span className="absolute bottom-1 right-1 rounded-full bg-black/60 px-1.5 text-[11px] font-semibold text-white">
+                        {postImages(post).length}
+                      </span>
+                    )}
+                  </div>
+                )}
+                {hasVideo(post) && (
+                  <a
+                    href={post.media_url!}
+                    target="_blank"
+                    rel="noreferrer"
+                    title="Open video"
+                    className="relative h-20 w-20 shrink-0"
+                  >
+                    {post.media_poster_url && (
+                      <img
+                        src={post.media_poster_url}
+                        alt=""
+                        className="h-full w-full rounded-xl object-cover"
+                      />
+                    )}
+                    <span className="absolute inset-0 flex items-center justify-center rounded-xl bg-black/30 text-lg text-white">
+                      ▶
+                    </span>
+                  </a>
+                )}
+
+                <div className="min-w-0 flex-1 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                    <span
+                      className={`rounded-full px-2 py-0.5 font-semibold uppercase tracking-wide ${STATUS_STYLES[post.status]}`}
+                    >
+                      {post.status}
+                    </span>
+                    {post.pinned_at && (
+                      <span className="rounded-full bg-white/15 px-2 py-0.5 font-semibold text-white/80">
+                        📌 Pinned
+                      </span>
+                    )}
+                    {post.featured && (
+                      <span className="rounded-full bg-amber-300/20 px-2 py-0.5 font-semibold text-amber-200">
+                        ⭐ Featured
+                      </span>
+                    )}
+                    {post.shadowbanned && (
+                      <span className="rounded-full bg-white/10 px-2 py-0.5 font-semibold text-purple-200/70">
+                        👻 Shadowbanned
+                      </span>
+                    )}
+                    <span className="text-purple-200/50">
+                      ♥ {post.likes} · 💬 {post.comment_count} ·{" "}
+                      {post.report_count} report
+                      {post.report_count !== 1 ? "s" : ""} ·{" "}
+                      {timeAgo(post.created_at)}
+                    </span>
+                    <a
+                      href={`/p/${post.id}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="ml-auto text-purple-300/60 hover:text-white"
+                    >
+                      Permalink ↗
+                    </a>
+                  </div>
+
+                  <p className="text-white text-[14px] whitespace-pre-wrap wrap-break-word line-clamp-3">
+                    {post.content}
+                  </p>
+
+                  <div className="flex gap-2">
+                    <ActionButton
+                      label={post.pinned_at ? "Unpin" : "Pin"}
+                      disabled={busyId === post.id}
+                      onClick={() =>
+                        updatePost(post.id, { pinned: !post.pinned_at })
+                      }
+                    />
+                    <ActionButton
+                      label={post.featured ? "Unfeature" : "Feature"}
+                      disabled={busyId === post.id}
+                      onClick={() =>
+                        updatePost(post.id, { featured: !post.featured })
+                      }
+                    />
+                    <BanAuthorButton
+                      postId={post.id}
+                      disabled={busyId === post.id}
+                      onBanned={(ban) => {
+                        if (ban.kind !== "shadowban") return;
+                        // Its other posts pick up the badge on next load
+                        setPosts((prev) =>
+                          prev.map((p) =>
+                            p.id === post.id ? { ...p, shadowbanned: true } : p
+                          )
+                        );
+                      }}
+                    />
+                    {canDelete && (
+                      <ActionButton
+                        label="Delete"
+                        tone="bad"
+                        disabled={busyId === post.id}
+                        onClick={() => deletePost(post.id)}
+                      />
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!loading && hasMore && (
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="block mx-auto text-sm text-purple-300 font-medium hover:text-white disabled:opacity-40 transition-colors"
+          >
+            {loadingMore ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ============================================================
+// Reusable Components
+// ============================================================
+
+const INPUT_CLASS =
+  "w-full rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-[13px] text-white placeholder-purple-200/30 outline-none scheme-dark";
+
+function FilterField({
+  label,
+  className = "",
+  children,
+}: {
+  label: string;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className={`block ${className}`}>
+      <span className="text-[11px] font-medium text-purple-200/50 uppercase tracking-wide">
+        {label}
+      </span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+function ActionButton({
+  label,
+  tone = "neutral",
+  disabled,
+  onClick,
+}: {
+  label: string;
+  tone?: "neutral" | "bad";
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`rounded-lg px-3 py-1.5 text-[13px] font-medium transition-colors disabled:opacity-40 ${
+        tone === "bad"
+          ? "bg-red-500/20 text-red-200 hover:bg-red-500/30"
+          : "bg-purple-500/20 text-purple-100 hover:bg-purple-500/30"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,88 @@
+import { Announcement } from "@/lib/announcements";
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { readJson, uuid } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import {
+  ANNOUNCEMENT_COLUMNS,
+  parseAnnouncement,
+} from "@/lib/server/announcements";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function getAnnouncement(id: string): Promise<Announcement> {
+  const { data, error } = await supabaseAdmin
+    .from("announcements")
+    .select(ANNOUNCEMENT_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw dbError(error, "Error fetching announcement");
+  if (!data) throw new HttpError(404, "announcement_not_found");
+  return data as Announcement;
+}
+
+// PATCH /api/admin/announcements/[id]
+//   { title?, body?, severity?, starts_at?, ends_at? } → Announcement
+export async function PATCH(request: Request, { params }: RouteParams) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const id = uuid((await params).id, "id");
+    const body = await readJson(request);
+
+    const before = await getAnnouncement(id);
+    const changes = parseAnnouncement(body, before);
+    if (Object.keys(changes).length === 0) {
+      throw new HttpError(400, "invalid_request", "Nothing to change");
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("announcements")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .select(ANNOUNCEMENT_COLUMNS)
+      .single();
+
+    if (error) throw dbError(error, "Error updating announcement");
+    const after = data as Announcement;
+    await recordAudit(admin, [
+      {
+        action: "announcement.update",
+        target_type: "announcement",
+        target_id: id,
+        before: { ...before },
+        after: { ...after },
+      },
+    ]);
+    return json(after);
+  });
+}
+
+// DELETE /api/admin/announcements/[id] → { id }
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const id = uuid((await params).id, "id");
+    const before = await getAnnouncement(id);
+
+    const { error } = await supabaseAdmin
+      .from("announcements")
+      .delete()
+      .eq("id", id);
+    if (error) throw dbError(error, "Error deleting announcement");
+
+    await recordAudit(admin, [
+      {
+        action: "announcement.delete",
+        target_type: "announcement",
+        target_id: id,
+        before: { ...before },
+        after: null,
+      },
+    ]);
+    return json({ id });
+  });
+}
@@ -0,0 +1,53 @@
+import { Announcement } from "@/lib/announcements";
+import { handle, json, dbError } from "@/lib/server/http";
+import { readJson } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import {
+  ANNOUNCEMENT_COLUMNS,
+  parseAnnouncement,
+} from "@/lib/server/announcements";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+// GET /api/admin/announcements → Announcement[], latest start first
+export async function GET() {
+  return handle(async () => {
+    await requireAdmin("moderator");
+    const { data, error } = await supabaseAdmin
+      .from("announcements")
+      .select(ANNOUNCEMENT_COLUMNS)
+      .order("starts_at", { ascending: false })
+      .limit(100);
+
+    if (error) throw dbError(error, "Error fetching announcements");
+    return json(data as Announcement[]);
+  });
+}
+
+// POST /api/admin/announcements
+//   { title, body?, severity?, starts_at?, ends_at? } → Announcement
+export async function POST(request: Request) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const input = parseAnnouncement(await readJson(request));
+
+    const { data, error } = await supabaseAdmin
+      .from("announcements")
+      .insert({ ...input, created_by: admin.id })
+      .select(ANNOUNCEMENT_COLUMNS)
+      .single();
+
+    if (error) throw dbError(error, "Error creating announcement");
+    const announcement = data as Announcement;
+    await recordAudit(admin, [
+      {
+        action: "announcement.create",
+        target_type: "announcement",
+        target_id: announcement.id,
+        before: null,
+        after: { ...announcement },
+      },
+    ]);
+    return json(announcement, { status: 201 });
+  });
+}
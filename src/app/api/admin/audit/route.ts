@@ -0,0 +1,40 @@
+import { AUDIT_ACTION_TYPES } from "@/lib/audit";
+import { handle, json, dbError } from "@/lib/server/http";
+import { int, isoDate, oneOf, text } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { AuditFilters, queryAuditLog } from "@/lib/server/audit";
+
+// GET /api/admin/audit?actor=&action=&from=&to=&cursor=&limit=
+//   → Page<AuditEntry>, newest first
+export async function GET(request: Request) {
+  return handle(async () => {
+    await requireAdmin("owner");
+    const params = new URL(request.url).searchParams;
+    const optional = <T>(key: string, parse: (v: string) => T) => {
+      const value = params.get(key);
+      return value ? parse(value) : null;
+    };
+
+    const filters: AuditFilters = {
+      actor: optional("actor", (v) =>
+        text(v, "actor", { max: 320 }).toLowerCase()
+      ),
+      action: optional("action", (v) => oneOf(v, "action", AUDIT_ACTION_TYPES)),
+      from: optional("from", (v) => isoDate(v, "from")),
+      to: optional("to", (v) => isoDate(v, "to")),
+    };
+    const limit = int(params.get("limit"), "limit", {
+      min: 1,
+      max: 100,
+      fallback: 50,
+    });
+
+    const { data, error } = await queryAuditLog(
+      filters,
+      params.get("cursor"),
+      limit
+    );
+    if (error) throw dbError(error, "Error fetching audit log");
+    return json(data);
+  });
+}
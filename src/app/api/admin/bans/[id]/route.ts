@@ -0,0 +1,61 @@
+import { Ban } from "@/lib/bans";
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { uuid } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import { BAN_COLUMNS, refreshShadowbans } from "@/lib/server/bans";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+// DELETE /api/admin/bans/[id] → Ban
+// Revokes rather than deletes, so the ban stays reviewable.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const banId = uuid((await params).id, "id");
+
+    const { data: before, error: beforeError } = await supabaseAdmin
+      .from("bans")
+      .select(BAN_COLUMNS)
+      .eq("id", banId)
+      .maybeSingle();
+    if (beforeError) throw dbError(beforeError, "Error fetching ban");
+    if (!before) throw new HttpError(404, "ban_not_found");
+    if (before.revoked_at) {
+      throw new HttpError(
+        409,
+        "already_revoked",
+        "This ban was already lifted"
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("bans")
+      .update({ revoked_at: new Date().toISOString(), revoked_by: admin.id })
+      .eq("id", banId)
+      .select(BAN_COLUMNS)
+      .single();
+
+    if (error) throw dbError(error, "Error revoking ban");
+    const ban = data as Ban;
+
+    if (ban.kind === "shadowban") {
+      const { error: showError } = await refreshShadowbans(ban);
+      if (showError)
+        throw dbError(showError, "Error restoring posts and comments");
+    }
+
+    await recordAudit(admin, [
+      {
+        action: "ban.revoke",
+        target_type: "ban",
+        target_id: banId,
+        before: { ...before },
+        after: { ...ban },
+      },
+    ]);
+    return json(ban);
+  });
+}
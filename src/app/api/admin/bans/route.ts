@@ -0,0 +1,22 @@
+import { Ban } from "@/lib/bans";
+import { handle, json, dbError } from "@/lib/server/http";
+import { requireAdmin } from "@/lib/server/admin";
+import { BAN_COLUMNS } from "@/lib/server/bans";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+const BANS_LIMIT = 200;
+
+// GET /api/admin/bans → Ban[], newest first (expired and revoked too)
+export async function GET() {
+  return handle(async () => {
+    await requireAdmin("moderator");
+    const { data, error } = await supabaseAdmin
+      .from("bans")
+      .select(BAN_COLUMNS)
+      .order("created_at", { ascending: false })
+      .limit(BANS_LIMIT);
+
+    if (error) throw dbError(error, "Error fetching bans");
+    return json(data as Ban[]);
+  });
+}
@@ -0,0 +1,47 @@
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { oneOf, readJson, uuid } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { CommentStatus } from "@/lib/types";
+
+const ACTIONS = ["approve", "remove"] as const;
+
+// POST /api/admin/comments/[id]/moderation { action } → { status }
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const commentId = uuid((await params).id, "id");
+    const body = await readJson(request);
+    const action = oneOf(body.action, "action", ACTIONS);
+
+    const { data: before, error: beforeError } = await supabaseAdmin
+      .from("comments")
+      .select("status")
+      .eq("id", commentId)
+      .maybeSingle();
+    if (beforeError) throw dbError(beforeError, "Error fetching comment");
+    if (!before) throw new HttpError(404, "comment_not_found");
+
+    const { data, error } = await supabaseAdmin.rpc("moderate_comment", {
+      p_comment_id: commentId,
+      p_action: action,
+    });
+
+    if (error) throw dbError(error, "Error moderating comment");
+    const status = data as CommentStatus;
+    await recordAudit(admin, [
+      {
+        action: `comment.${action}`,
+        target_type: "comment",
+        target_id: commentId,
+        before: { ...before },
+        after: { status },
+      },
+    ]);
+    return json({ status });
+  });
+}
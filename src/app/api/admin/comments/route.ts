@@ -0,0 +1,14 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { requireAdmin } from "@/lib/server/admin";
+import { queryHeldComments } from "@/lib/server/moderation";
+import { HeldComment } from "@/lib/types";
+
+// GET /api/admin/comments → HeldComment[] (held by the content filter)
+export async function GET() {
+  return handle(async () => {
+    await requireAdmin("moderator");
+    const { data, error } = await queryHeldComments();
+    if (error) throw dbError(error, "Error fetching held comments");
+    return json(data as HeldComment[]);
+  });
+}
@@ -0,0 +1,64 @@
+import { FLAG_KEYS, FeatureFlag } from "@/lib/flags";
+import { handle, json, dbError } from "@/lib/server/http";
+import { bool, int, oneOf, readJson, text } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import { FLAG_COLUMNS, invalidateFlags } from "@/lib/server/flags";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+// PATCH /api/admin/flags/[key] { enabled?, rollout_percent?, message? }
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  return handle(async () => {
+    const admin = await requireAdmin("owner");
+    const key = oneOf((await params).key, "key", FLAG_KEYS);
+    const body = await readJson(request);
+
+    const changes: Partial<FeatureFlag> = {};
+    if (body.enabled !== undefined) {
+      changes.enabled = bool(body.enabled, "enabled");
+    }
+    if (body.rollout_percent !== undefined) {
+      changes.rollout_percent = int(body.rollout_percent, "rollout_percent", {
+        min: 0,
+        max: 100,
+      });
+    }
+    if (body.message !== undefined) {
+      // Empty or null clears the message
+      changes.message =
+        body.message === null || body.message === ""
+          ? null
+          : text(body.message, "message", { max: 280 });
+    }
+
+    const { data: before, error: beforeError } = await supabaseAdmin
+      .from("feature_flags")
+      .select(FLAG_COLUMNS)
+      .eq("key", key)
+      .maybeSingle();
+    if (beforeError) throw dbError(beforeError, "Error fetching feature flag");
+
+    // Upsert so flags added in code can be configured before seeding
+    const { data, error } = await supabaseAdmin
+      .from("feature_flags")
+      .upsert({ key, ...changes, updated_at: new Date().toISOString() })
+      .select(FLAG_COLUMNS)
+      .single();
+
+    if (error) throw dbError(error, "Error updating feature flag");
+    invalidateFlags();
+    await recordAudit(admin, [
+      {
+        action: "flag.update",
+        target_type: "flag",
+        target_id: key,
+        before,
+        after: data,
+      },
+    ]);
+    return json(data as FeatureFlag);
+  });
+}
@@ -0,0 +1,20 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { requireAdmin } from "@/lib/server/admin";
+import { FLAG_COLUMNS } from "@/lib/server/flags";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { FeatureFlag } from "@/lib/flags";
+
+// GET /api/admin/flags → FeatureFlag[]
+export async function GET() {
+  return handle(async () => {
+    await requireAdmin("viewer");
+
+    const { data, error } = await supabaseAdmin
+      .from("feature_flags")
+      .select(FLAG_COLUMNS)
+      .order("key");
+
+    if (error) throw dbError(error, "Error fetching feature flags");
+    return json(data as FeatureFlag[]);
+  });
+}
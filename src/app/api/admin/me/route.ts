@@ -0,0 +1,7 @@
+import { handle, json } from "@/lib/server/http";
+import { requireAdmin } from "@/lib/server/admin";
+
+// GET /api/admin/me → AdminUser for the signed-in admin
+export async function GET() {
+  return handle(async () => json(await requireAdmin()));
+}
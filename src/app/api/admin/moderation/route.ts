@@ -0,0 +1,20 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { oneOf } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import {
+  MODERATION_VIEWS,
+  queryModerationQueue,
+} from "@/lib/server/moderation";
+
+// GET /api/admin/moderation?view=pending|queue|removed → ModerationItem[]
+export async function GET(request: Request) {
+  return handle(async () => {
+    await requireAdmin("moderator");
+    const params = new URL(request.url).searchParams;
+    const view = oneOf(params.get("view") ?? "queue", "view", MODERATION_VIEWS);
+
+    const { data, error } = await queryModerationQueue(view);
+    if (error) throw dbError(error, "Error fetching moderation queue");
+    return json(data);
+  });
+}
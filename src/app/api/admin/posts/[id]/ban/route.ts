@@ -0,0 +1,101 @@
+import { BAN_KIND_TYPES, Ban, MAX_BAN_REASON_CHARS } from "@/lib/bans";
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import {
+  bool,
+  oneOf,
+  readJson,
+  text,
+  timestamp,
+  uuid,
+} from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import { BAN_COLUMNS, refreshShadowbans } from "@/lib/server/bans";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+// POST /api/admin/posts/[id]/ban
+//   { kind, reason, expires_at: string | null, include_ip? } → Ban
+// Bans the device (and optionally the network) that wrote the post.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const postId = uuid((await params).id, "id");
+    const body = await readJson(request);
+    const kind = oneOf(body.kind, "kind", BAN_KIND_TYPES);
+    const reason = text(body.reason, "reason", { max: MAX_BAN_REASON_CHARS });
+    const expiresAt =
+      body.expires_at === null || body.expires_at === undefined
+        ? null
+        : timestamp(body.expires_at, "expires_at");
+    if (expiresAt && Date.parse(expiresAt) <= Date.now()) {
+      throw new HttpError(
+        400,
+        "invalid_request",
+        "expires_at: must be in the future",
+        { field: "expires_at" }
+      );
+    }
+    const includeIp =
+      body.include_ip !== undefined && bool(body.include_ip, "include_ip");
+
+    const { data: post, error: postError } = await supabaseAdmin
+      .from("posts")
+      .select("user_pseudo_id, ip_hash")
+      .eq("id", postId)
+      .maybeSingle();
+    if (postError) throw dbError(postError, "Error fetching post");
+    if (!post) throw new HttpError(404, "post_not_found");
+    // Posts from before device IDs were stored can't be traced
+    if (!post.user_pseudo_id) {
+      throw new HttpError(
+        409,
+        "author_unknown",
+        "This post has no device ID to ban"
+      );
+    }
+    if (includeIp && !post.ip_hash) {
+      throw new HttpError(
+        409,
+        "ip_unknown",
+        "This post has no network fingerprint to ban"
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("bans")
+      .insert({
+        kind,
+        user_pseudo_id: post.user_pseudo_id,
+        ip_hash: includeIp ? post.ip_hash : null,
+        reason,
+        post_id: postId,
+        expires_at: expiresAt,
+        created_by: admin.id,
+      })
+      .select(BAN_COLUMNS)
+      .single();
+
+    if (error) throw dbError(error, "Error creating ban");
+    const ban = data as Ban;
+
+    if (kind === "shadowban") {
+      const { error: hideError } = await refreshShadowbans(ban);
+      if (hideError)
+        throw dbError(hideError, "Error hiding posts and comments");
+    }
+
+    await recordAudit(admin, [
+      {
+        action: "ban.create",
+        target_type: "ban",
+        target_id: ban.id,
+        before: null,
+        after: { ...ban },
+      },
+    ]);
+    return json(ban, { status: 201 });
+  });
+}
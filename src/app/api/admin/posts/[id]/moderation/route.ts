@@ -0,0 +1,41 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { oneOf, readJson, uuid } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import { getModerationStates } from "@/lib/server/moderation";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { PostStatus } from "@/lib/types";
+
+const ACTIONS = ["approve", "remove", "restore"] as const;
+
+// POST /api/admin/posts/[id]/moderation { action } → { status }
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const postId = uuid((await params).id, "id");
+    const body = await readJson(request);
+    const action = oneOf(body.action, "action", ACTIONS);
+
+    const before = await getModerationStates([postId]);
+    const { data, error } = await supabaseAdmin.rpc("moderate_post", {
+      p_post_id: postId,
+      p_action: action,
+    });
+
+    if (error) throw dbError(error, "Error moderating post");
+    const status = data as PostStatus;
+    await recordAudit(admin, [
+      {
+        action: `post.${action}`,
+        target_type: "post",
+        target_id: postId,
+        before: { ...before.get(postId) },
+        after: { status, report_count: 0 },
+      },
+    ]);
+    return json({ status });
+  });
+}
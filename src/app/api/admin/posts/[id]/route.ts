@@ -0,0 +1,132 @@
+import { AdminPost } from "@/lib/types";
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { bool, readJson, uuid } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { AuditRecord, recordAudit } from "@/lib/server/audit";
+import { POST_COLUMNS } from "@/lib/server/posts";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+const ADMIN_POST_COLUMNS = `${POST_COLUMNS}, report_count, shadowbanned`;
+const IMAGE_BUCKET = "post-images";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function getAdminPost(postId: string): Promise<AdminPost> {
+  const { data, error } = await supabaseAdmin
+    .from("posts")
+    .select(ADMIN_POST_COLUMNS)
+    .eq("id", postId)
+    .maybeSingle();
+
+  if (error) throw dbError(error, "Error fetching post");
+  if (!data) throw new HttpError(404, "post_not_found");
+  return data as AdminPost;
+}
+
+// PATCH /api/admin/posts/[id] { pinned?, featured? } → AdminPost
+export async function PATCH(request: Request, { params }: RouteParams) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const postId = uuid((await params).id, "id");
+    const body = await readJson(request);
+
+    const pinned =
+      body.pinned !== undefined ? bool(body.pinned, "pinned") : null;
+    const featured =
+      body.featured !== undefined ? bool(body.featured, "featured") : null;
+    if (pinned === null && featured === null) {
+      throw new HttpError(400, "invalid_request", "Nothing to change");
+    }
+
+    const before = await getAdminPost(postId);
+    const changes: Partial<AdminPost> = {};
+    // Re-pinning moves the post back to the top of the pinned list
+    if (pinned !== null) {
+      changes.pinned_at = pinned ? new Date().toISOString() : null;
+    }
+    if (featured !== null) changes.featured = featured;
+
+    const { data, error } = await supabaseAdmin
+      .from("posts")
+      .update(changes)
+      .eq("id", postId)
+      .select(ADMIN_POST_COLUMNS)
+      .single();
+
+    if (error) throw dbError(error, "Error updating post");
+    const after = data as AdminPost;
+
+    const records: AuditRecord[] = [];
+    if (pinned !== null && pinned !== !!before.pinned_at) {
+      records.push({
+        action: pinned ? "post.pin" : "post.unpin",
+        target_type: "post",
+        target_id: postId,
+        before: { pinned_at: before.pinned_at },
+        after: { pinned_at: after.pinned_at },
+      });
+    }
+    if (featured !== null && featured !== before.featured) {
+      records.push({
+        action: featured ? "post.feature" : "post.unfeature",
+        target_type: "post",
+        target_id: postId,
+        before: { featured: before.featured },
+        after: { featured: after.featured },
+      });
+    }
+    await recordAudit(admin, records);
+
+    return json(after);
+  });
+}
+
+// DELETE /api/admin/posts/[id] → { id }
+// Permanent: comments, likes, reactions and reports go with it.
+// The audit entry keeps the full post as it was.
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  return handle(async () => {
+    const admin = await requireAdmin("owner");
+    const postId = uuid((await params).id, "id");
+    const before = await getAdminPost(postId);
+
+    const { error } = await supabaseAdmin
+      .from("posts")
+      .delete()
+      .eq("id", postId);
+    if (error) throw dbError(error, "Error deleting post");
+
+    // Best effort: an orphaned image is harmless
+    const mediaPaths = [
+      before.media_url,
+      before.media_poster_url,
+      ...(before.media ?? []).map((m) => m.url),
+    ]
+      .map((url) => url?.split(`/${IMAGE_BUCKET}/`)[1])
+      // The cover of a multi-image post is listed twice
+      .filter(
+        (path, i, all): path is string => !!path && all.indexOf(path) === i
+      );
+    if (mediaPaths.length > 0) {
+      const { error: storageError } = await supabaseAdmin.storage
+        .from(IMAGE_BUCKET)
+        .remove(mediaPaths);
+      if (storageError) {
+        console.error("[api] Error deleting post media:", storageError);
+      }
+    }
+
+    await recordAudit(admin, [
+      {
+        action: "post.delete",
+        target_type: "post",
+        target_id: postId,
+        before: { ...before },
+        after: null,
+      },
+    ]);
+    return json({ id: postId });
+  });
+}
@@ -0,0 +1,41 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { oneOf, readJson, uuidList } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { recordAudit } from "@/lib/server/audit";
+import { getModerationStates } from "@/lib/server/moderation";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { PostStatus } from "@/lib/types";
+
+const ACTIONS = ["approve", "remove"] as const;
+const MAX_IDS = 100;
+
+// POST /api/admin/posts/moderation { ids, action } → [{ id, status }]
+// Bulk approve/reject for the pending list; all or nothing.
+export async function POST(request: Request) {
+  return handle(async () => {
+    const admin = await requireAdmin("moderator");
+    const body = await readJson(request);
+    const action = oneOf(body.action, "action", ACTIONS);
+    const ids = uuidList(body.ids, "ids", { max: MAX_IDS });
+
+    const before = await getModerationStates(ids);
+    const { data, error } = await supabaseAdmin.rpc("moderate_posts", {
+      p_post_ids: ids,
+      p_action: action,
+    });
+
+    if (error) throw dbError(error, "Error moderating posts");
+    const results = data as { id: string; status: PostStatus }[];
+    await recordAudit(
+      admin,
+      results.map(({ id, status }) => ({
+        action: `post.${action}`,
+        target_type: "post",
+        target_id: id,
+        before: { ...before.get(id) },
+        after: { status, report_count: 0 },
+      }))
+    );
+    return json(results);
+  });
+}
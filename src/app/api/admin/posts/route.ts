@@ -0,0 +1,54 @@
+import { PostStatus } from "@/lib/types";
+import { handle, json, dbError } from "@/lib/server/http";
+import { int, isoDate, oneOf, text } from "@/lib/server/validate";
+import { requireAdmin } from "@/lib/server/admin";
+import { AdminPostFilters, queryAdminPosts } from "@/lib/server/admin-posts";
+
+const STATUSES: readonly PostStatus[] = [
+  "published",
+  "pending",
+  "hidden",
+  "removed",
+];
+const MAX_LIKES = 1_000_000;
+
+// GET /api/admin/posts?q=&status=&has_image=true|false&min_likes=
+//   &max_likes=&from=&to=&cursor=&limit= → Page<AdminPost>
+export async function GET(request: Request) {
+  return handle(async () => {
+    await requireAdmin("moderator");
+    const params = new URL(request.url).searchParams;
+    const optional = <T>(key: string, parse: (v: string) => T) => {
+      const value = params.get(key);
+      return value ? parse(value) : null;
+    };
+    const likes = (field: string) => (v: string) =>
+      int(v, field, { min: 0, max: MAX_LIKES });
+
+    const filters: AdminPostFilters = {
+      q: optional("q", (v) => text(v, "q", { max: 200 })),
+      status: optional("status", (v) => oneOf(v, "status", STATUSES)),
+      hasImage: optional(
+        "has_image",
+        (v) => oneOf(v, "has_image", ["true", "false"]) === "true"
+      ),
+      minLikes: optional("min_likes", likes("min_likes")),
+      maxLikes: optional("max_likes", likes("max_likes")),
+      from: optional("from", (v) => isoDate(v, "from")),
+      to: optional("to", (v) => isoDate(v, "to")),
+    };
+    const limit = int(params.get("limit"), "limit", {
+      min: 1,
+      max: 100,
+      fallback: 30,
+    });
+
+    const { data, error } = await queryAdminPosts(
+      filters,
+      params.get("cursor"),
+      limit
+    );
+    if (error) throw dbError(error, "Error fetching posts");
+    return json(data);
+  });
+}
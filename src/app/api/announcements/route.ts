@@ -0,0 +1,13 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { queryActiveAnnouncements } from "@/lib/server/announcements";
+
+// GET /api/announcements → Announcement[] live right now
+export async function GET() {
+  return handle(async () => {
+    const { data, error } = await queryActiveAnnouncements();
+    if (error) throw dbError(error, "Error fetching announcements");
+    return json(data, {
+      headers: { "Cache-Control": "public, max-age=60" },
+    });
+  });
+}
@@ -0,0 +1,38 @@
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { readJson, smallObject, uuid } from "@/lib/server/validate";
+import { getPseudoId } from "@/lib/server/identity";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { enforceRateLimit } from "@/lib/server/rate-limit";
+
+const EVENT_NAME_RE = /^[a-z][a-z0-9_]{0,63}$/;
+
+// POST /api/events { event_name, post_id?, metadata? }
+export async function POST(request: Request) {
+  return handle(async () => {
+    const pseudoId = getPseudoId(request);
+    const body = await readJson(request);
+
+    if (
+      typeof body.event_name !== "string" ||
+      !EVENT_NAME_RE.test(body.event_name)
+    ) {
+      throw new HttpError(400, "invalid_request", "event_name: invalid");
+    }
+    const postId = body.post_id ? uuid(body.post_id, "post_id") : null;
+    const metadata = smallObject(body.metadata, "metadata");
+    // Shares feed the virality metrics; keep them honest
+    if (body.event_name === "share_post") {
+      await enforceRateLimit(request, "share");
+    }
+
+    const { error } = await supabaseAdmin.from("analytics_events").insert({
+      event_name: body.event_name,
+      user_pseudo_id: pseudoId,
+      post_id: postId,
+      metadata,
+    });
+
+    if (error) throw dbError(error, "Error tracking event");
+    return json({ ok: true }, { status: 201 });
+  });
+}
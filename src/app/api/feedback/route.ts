@@ -0,0 +1,25 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { oneOf, readJson, uuid } from "@/lib/server/validate";
+import { enforceRateLimit } from "@/lib/server/rate-limit";
+import { requireFlag } from "@/lib/server/flags";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+const RATINGS = ["happy", "normal", "sad"] as const;
+
+// POST /api/feedback { rating, post_id? }
+export async function POST(request: Request) {
+  return handle(async () => {
+    const body = await readJson(request);
+    const rating = oneOf(body.rating, "rating", RATINGS);
+    const postId = body.post_id ? uuid(body.post_id, "post_id") : null;
+    await requireFlag(request, "feedback_survey");
+    await enforceRateLimit(request, "feedback");
+
+    const { error } = await supabaseAdmin
+      .from("feedback")
+      .insert({ rating, post_id: postId });
+
+    if (error) throw dbError(error, "Error saving feedback");
+    return json({ ok: true }, { status: 201 });
+  });
+}
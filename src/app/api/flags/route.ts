@@ -0,0 +1,12 @@
+import { handle, json } from "@/lib/server/http";
+import { getPseudoId } from "@/lib/server/identity";
+import { getFlagsFor } from "@/lib/server/flags";
+
+// GET /api/flags → FlagStates evaluated for the calling device
+export async function GET(request: Request) {
+  return handle(async () =>
+    json(await getFlagsFor(getPseudoId(request)), {
+      headers: { "Cache-Control": "private, no-store" },
+    })
+  );
+}
@@ -0,0 +1,11 @@
+import { handle, json } from "@/lib/server/http";
+import { requireAdmin } from "@/lib/server/admin";
+import { loadMetrics } from "@/lib/server/metrics";
+
+// GET /api/metrics (admin) → Metrics
+export async function GET() {
+  return handle(async () => {
+    await requireAdmin("viewer");
+    return json(await loadMetrics());
+  });
+}
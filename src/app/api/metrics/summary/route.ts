@@ -0,0 +1,11 @@
+import { handle, json } from "@/lib/server/http";
+import { requireAdmin } from "@/lib/server/admin";
+import { loadSummary } from "@/lib/server/metrics";
+
+// GET /api/metrics/summary (admin) → AnalyticsSummary
+export async function GET() {
+  return handle(async () => {
+    await requireAdmin("viewer");
+    return json(await loadSummary());
+  });
+}
@@ -0,0 +1,76 @@
+import { MAX_CONTENT_CHARS } from "@/lib/limits";
+import { Comment } from "@/lib/types";
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { int, readJson, text, uuid } from "@/lib/server/validate";
+import { getIpHash, getPseudoId, peekPseudoId } from "@/lib/server/identity";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { queryCommentPage } from "@/lib/server/posts";
+import { enforceRateLimit } from "@/lib/server/rate-limit";
+import { requireNotBanned } from "@/lib/server/bans";
+import { describeRules, filterContent } from "@/lib/server/content-filter";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/posts/[id]/comments?cursor=&limit=
+export async function GET(request: Request, { params }: RouteParams) {
+  return handle(async () => {
+    const postId = uuid((await params).id, "id");
+    const query = new URL(request.url).searchParams;
+    const limit = int(query.get("limit"), "limit", {
+      min: 1,
+      max: 50,
+      fallback: 10,
+    });
+
+    const { data, error } = await queryCommentPage(
+      postId,
+      query.get("cursor"),
+      limit,
+      peekPseudoId(request)
+    );
+    if (error) throw dbError(error, "Error fetching comments");
+    return json(data);
+  });
+}
+
+// POST /api/posts/[id]/comments { content } → Comment
+// Filtered like posts: rejected, masked, or held as 'pending'
+// (visible only to its author) until a moderator approves it.
+export async function POST(request: Request, { params }: RouteParams) {
+  return handle(async () => {
+    const postId = uuid((await params).id, "id");
+    const pseudoId = getPseudoId(request);
+    const body = await readJson(request);
+    const content = text(body.content, "content", { max: MAX_CONTENT_CHARS });
+    const shadowbanned = (await requireNotBanned(request)) === "shadowban";
+    // Counted before filtering, as for posts
+    await enforceRateLimit(request, "comment");
+
+    const filtered = filterContent(content);
+    if (filtered.action === "reject") {
+      throw new HttpError(
+        422,
+        "content_rejected",
+        `Comments can't include ${describeRules(filtered.hits)}.`,
+        { rules: filtered.hits.map((h) => h.rule) }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .rpc("add_comment", {
+        p_post_id: postId,
+        p_user_pseudo_id: pseudoId,
+        p_content: filtered.content,
+        p_ip_hash: getIpHash(request),
+        p_shadowbanned: shadowbanned,
+        p_status: filtered.action === "review" ? "pending" : "published",
+        p_filter_flags: filtered.hits.map((h) => h.rule),
+      })
+      .single();
+
+    if (error) throw dbError(error, "Error adding comment");
+    return json(data as Comment, { status: 201 });
+  });
+}
@@ -0,0 +1,34 @@
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { uuid } from "@/lib/server/validate";
+import { getPseudoId } from "@/lib/server/identity";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { enforceRateLimit } from "@/lib/server/rate-limit";
+import { requireNotBanned } from "@/lib/server/bans";
+
+// POST /api/posts/[id]/like → { likes }
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const postId = uuid((await params).id, "id");
+    const pseudoId = getPseudoId(request);
+    await requireNotBanned(request);
+    // like_post() caps each device; this also throttles each network.
+    // Only the device cap is final, so only it is reported as such
+    await enforceRateLimit(request, "like", postId).catch((err) => {
+      if (err instanceof HttpError && err.details?.layer === "device") {
+        throw new HttpError(429, "like_limit_reached");
+      }
+      throw err;
+    });
+
+    const { data, error } = await supabaseAdmin.rpc("like_post", {
+      p_post_id: postId,
+      p_user_pseudo_id: pseudoId,
+    });
+
+    if (error) throw dbError(error, "Error liking post");
+    return json({ likes: data as number });
+  });
+}
@@ -0,0 +1,28 @@
+import { REACTION_TYPES } from "@/lib/reactions";
+import { Post } from "@/lib/types";
+import { handle, json, dbError } from "@/lib/server/http";
+import { oneOf, readJson, uuid } from "@/lib/server/validate";
+import { getPseudoId } from "@/lib/server/identity";
+import { supabaseAdmin } from "@/lib/server/supabase";
+
+// POST /api/posts/[id]/reactions { reaction } → { reactions }
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const postId = uuid((await params).id, "id");
+    const pseudoId = getPseudoId(request);
+    const body = await readJson(request);
+    const reaction = oneOf(body.reaction, "reaction", REACTION_TYPES);
+
+    const { data, error } = await supabaseAdmin.rpc("react_to_post", {
+      p_post_id: postId,
+      p_user_pseudo_id: pseudoId,
+      p_reaction: reaction,
+    });
+
+    if (error) throw dbError(error, "Error reacting to post");
+    return json({ reactions: data as Post["reactions"] });
+  });
+}
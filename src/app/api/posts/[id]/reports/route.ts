@@ -0,0 +1,39 @@
+import { REPORT_REASON_TYPES } from "@/lib/reports";
+import { handle, json, dbError } from "@/lib/server/http";
+import { oneOf, readJson, text, uuid } from "@/lib/server/validate";
+import { getPseudoId } from "@/lib/server/identity";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { enforceRateLimit } from "@/lib/server/rate-limit";
+import { requireNotBanned } from "@/lib/server/bans";
+
+// POST /api/posts/[id]/reports { reason, details? }
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const postId = uuid((await params).id, "id");
+    const pseudoId = getPseudoId(request);
+    const body = await readJson(request);
+    const reason = oneOf(body.reason, "reason", REPORT_REASON_TYPES);
+    const details =
+      body.details === undefined || body.details === null
+        ? null
+        : text(body.details, "details", { max: 255 });
+    const shadowbanned = (await requireNotBanned(request)) === "shadowban";
+    await enforceRateLimit(request, "report");
+    // Shadowbanned devices can't tell their reports are dropped
+    if (shadowbanned) return json({ ok: true }, { status: 201 });
+
+    const { error } = await supabaseAdmin.rpc("report_post", {
+      p_post_id: postId,
+      p_user_pseudo_id: pseudoId,
+      p_reason: reason,
+      p_details: details,
+    });
+
+    if (error) throw dbError(error, "Error reporting post");
+    // Don't reveal whether this report tipped the post into hiding
+    return json({ ok: true }, { status: 201 });
+  });
+}
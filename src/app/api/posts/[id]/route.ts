@@ -0,0 +1,16 @@
+import { handle, json, HttpError } from "@/lib/server/http";
+import { peekPseudoId } from "@/lib/server/identity";
+import { getPostById } from "@/lib/server/posts";
+
+// GET /api/posts/[id]
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const { id } = await params;
+    const post = await getPostById(id, peekPseudoId(request));
+    if (!post) throw new HttpError(404, "post_not_found");
+    return json(post);
+  });
+}
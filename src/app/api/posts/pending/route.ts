@@ -0,0 +1,12 @@
+import { handle, json, dbError } from "@/lib/server/http";
+import { getPseudoId } from "@/lib/server/identity";
+import { queryPendingPosts } from "@/lib/server/posts";
+
+// GET /api/posts/pending → the calling device's posts awaiting review
+export async function GET(request: Request) {
+  return handle(async () => {
+    const { data, error } = await queryPendingPosts(getPseudoId(request));
+    if (error) throw dbError(error, "Error fetching pending posts");
+    return json(data, { headers: { "Cache-Control": "private, no-store" } });
+  });
+}
@@ -0,0 +1,298 @@
+import { FEED_SORTS, FeedMode, TOP_PERIODS } from "@/lib/feed";
+import { Post, PostMedia } from "@/lib/types";
+import {
+  MAX_CONTENT_CHARS,
+  MAX_PLACEHOLDER_CHARS,
+  MAX_POST_IMAGES,
+} from "@/lib/limits";
+import { handle, json, dbError, HttpError } from "@/lib/server/http";
+import { int, oneOf, readJson, text } from "@/lib/server/validate";
+import { enforceRateLimit } from "@/lib/server/rate-limit";
+import { getFlagsFor, requireFlag } from "@/lib/server/flags";
+import { getIpHash, getPseudoId, peekPseudoId } from "@/lib/server/identity";
+import { requireNotBanned } from "@/lib/server/bans";
+import { describeRules, filterContent } from "@/lib/server/content-filter";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import { UPLOAD_BUCKET, verifyUpload } from "@/lib/server/uploads";
+import {
+  POST_COLUMNS,
+  queryFeedPage,
+  queryPinnedPosts,
+} from "@/lib/server/posts";
+
+const UPLOAD_PATH_RE = /^[0-9a-f-]{36}\.(jpg|jpeg|png|gif|webp|mp4|webm|mov)$/;
+const VIDEO_PATH_RE = /\.(mp4|webm|mov)$/;
+const DIMENSION = { min: 1, max: 10000 };
+const PLACEHOLDER_RE = /^data:image\/(webp|jpeg);base64,[A-Za-z0-9+/]+=*$/;
+
+type PostImage = Omit<PostMedia, "position">;
+
+/** A path returned by POST /api/uploads, as its public URL. */
+function uploadedUrl(value: unknown, field: string): string {
+  if (typeof value !== "string" || !UPLOAD_PATH_RE.test(value)) {
+    throw new HttpError(400, "invalid_request", `${field}: invalid`);
+  }
+  return supabaseAdmin.storage.from(UPLOAD_BUCKET).getPublicUrl(value).data
+    .publicUrl;
+}
+
+/**
+ * Size and placeholder measured by the browser pipeline; both are
+ * optional for older clients.
+ */
+function mediaDetails(
+  value: { width?: unknown; height?: unknown; placeholder?: unknown },
+  prefix: string
+): Omit<PostImage, "url"> {
+  const details: Omit<PostImage, "url"> = {
+    width: null,
+    height: null,
+    placeholder: null,
+  };
+  if (value.width != null || value.height != null) {
+    details.width = int(value.width, `${prefix}width`, DIMENSION);
+    details.height = int(value.height, `${prefix}height`, DIMENSION);
+  }
+  if (value.placeholder != null) {
+    if (
+      typeof value.placeholder !== "string" ||
+      value.placeholder.length > MAX_PLACEHOLDER_CHARS ||
+      !PLACEHOLDER_RE.test(value.placeholder)
+    ) {
+      throw new HttpError(
+        400,
+        "invalid_request",
+        `${prefix}placeholder: invalid`
+      );
+    }
+    details.placeholder = value.placeholder;
+  }
+  return details;
+}
+
+function parseImages(value: unknown): PostImage[] {
+  if (
+    !Array.isArray(value) ||
+    value.length < 1 ||
+    value.length > MAX_POST_IMAGES
+  ) {
+    throw new HttpError(
+      400,
+      "invalid_request",
+      `images: must be a list of 1 to ${MAX_POST_IMAGES} images`
+    );
+  }
+  return value.map((item, i) => {
+    const field = `images[${i}]`;
+    if (typeof item !== "object" || item === null) {
+      throw new HttpError(400, "invalid_request", `${field}: invalid`);
+    }
+    if (typeof item.path === "string" && VIDEO_PATH_RE.test(item.path)) {
+      throw new HttpError(
+        400,
+        "invalid_request",
+        `${field}.path: must be an image`
+      );
+    }
+    return {
+      url: uploadedUrl(item.path, `${field}.path`),
+      ...mediaDetails(item, `${field}.`),
+    };
+  });
+}
+
+// GET /api/posts?sort=hot|top|new&period=day|week|all&cursor=&limit=
+export async function GET(request: Request) {
+  return handle(async () => {
+    const params = new URL(request.url).searchParams;
+    const mode: FeedMode = {
+      sort: oneOf(params.get("sort") ?? "hot", "sort", FEED_SORTS),
+      period: oneOf(params.get("period") ?? "day", "period", TOP_PERIODS),
+    };
+    const limit = int(params.get("limit"), "limit", {
+      min: 1,
+      max: 50,
+      fallback: 15,
+    });
+
+    const cursor = params.get("cursor");
+    const { data, error } = await queryFeedPage(
+      mode,
+      cursor,
+      limit,
+      peekPseudoId(request)
+    );
+    if (error) throw dbError(error, "Error fetching feed");
+    if (cursor) return json(data);
+
+    // Pinned posts lead the first page in every mode; the cursor
+    // only tracks the regular posts after them
+    const pinned = await queryPinnedPosts();
+    if (pinned.error) {
+      throw dbError(pinned.error, "Error fetching pinned posts");
+    }
+    return json({
+      ...data,
+      items: [...(pinned.data as Post[]), ...data!.items],
+    });
+  });
+}
+
+// POST /api/posts
+//   { content, images?, media_path?, media_poster_path?,
+//     media_width?, media_height?, media_placeholder? }
+// images: [{ path, width?, height?, placeholder? }], in order. The
+// media_* fields carry a video (media_poster_path is required with
+// one and refused otherwise) or, from older clients, one image.
+export async function POST(request: Request) {
+  return handle(async () => {
+    const body = await readJson(request);
+    const content = text(body.content, "content", { max: MAX_CONTENT_CHARS });
+    const shadowbanned = (await requireNotBanned(request)) === "shadowban";
+    await requireFlag(request, "posting");
+
+    const media: Pick<
+      Post,
+      | "media_url"
+      | "media_type"
+      | "media_width"
+      | "media_height"
+      | "media_placeholder"
+      | "media_poster_url"
+    > = {
+      media_url: null,
+      media_type: null,
+      media_width: null,
+      media_height: null,
+      media_placeholder: null,
+      media_poster_url: null,
+    };
+    let images: PostImage[] = [];
+    const uploads: { path: string; field: string }[] = [];
+    if (body.images !== undefined && body.images !== null) {
+      if (body.media_path != null) {
+        throw new HttpError(
+          400,
+          "invalid_request",
+          "images: can't be combined with media_path"
+        );
+      }
+      images = parseImages(body.images);
+      (body.images as { path: string }[]).forEach(({ path }, i) =>
+        uploads.push({ path, field: `images[${i}].path` })
+      );
+      await requireFlag(request, "image_uploads");
+
+      // The cover, for share cards, Realtime and older clients
+      const [cover] = images;
+      media.media_url = cover.url;
+      media.media_type = "image";
+      media.media_width = cover.width;
+      media.media_height = cover.height;
+      media.media_placeholder = cover.placeholder;
+    } else if (body.media_path !== undefined && body.media_path !== null) {
+      media.media_url = uploadedUrl(body.media_path, "media_path");
+      uploads.push({ path: body.media_path as string, field: "media_path" });
+      const isVideo = VIDEO_PATH_RE.test(body.media_path as string);
+      media.media_type = isVideo ? "video" : "image";
+      await requireFlag(request, "image_uploads");
+
+      if (isVideo) {
+        await requireFlag(request, "video_uploads");
+        media.media_poster_url = uploadedUrl(
+          body.media_poster_path,
+          "media_poster_path"
+        );
+        uploads.push({
+          path: body.media_poster_path as string,
+          field: "media_poster_path",
+        });
+      } else if (body.media_poster_path != null) {
+        throw new HttpError(
+          400,
+          "invalid_request",
+          "media_poster_path: only allowed with a video"
+        );
+      }
+
+      const details = mediaDetails(
+        {
+          width: body.media_width,
+          height: body.media_height,
+          placeholder: body.media_placeholder,
+        },
+        "media_"
+      );
+      media.media_width = details.width;
+      media.media_height = details.height;
+      media.media_placeholder = details.placeholder;
+    }
+
+    // Counted before filtering so rejected attempts can't be used
+    // to probe the filter for free
+    await enforceRateLimit(request, "post");
+
+    // The stored files, not the type and size declared when the
+    // uploads were signed
+    await Promise.all(
+      uploads.map(({ path, field }) => verifyUpload(path, field))
+    );
+
+    const filtered = filterContent(content);
+    if (filtered.action === "reject") {
+      throw new HttpError(
+        422,
+        "content_rejected",
+        `Posts can't include ${describeRules(filtered.hits)}.`,
+        { rules: filtered.hits.map((h) => h.rule) }
+      );
+    }
+    // Held posts (filter review, or hold_for_review mode) are
+    // visible only to their author until a moderator approves them
+    const pseudoId = getPseudoId(request);
+    const held =
+      filtered.action === "review" ||
+      (await getFlagsFor(pseudoId)).hold_for_review.enabled;
+
+    const { data, error } = await supabaseAdmin
+      .from("posts")
+      .insert({
+        content: filtered.content,
+        ...media,
+        status: held ? "pending" : "published",
+        filter_flags: filtered.hits.map((h) => h.rule),
+        user_pseudo_id: pseudoId,
+        ip_hash: getIpHash(request),
+        shadowbanned,
+      })
+      .select(POST_COLUMNS)
+      .single();
+
+    if (error) throw dbError(error, "Error creating post");
+    let post = data as Post;
+
+    if (images.length > 0) {
+      const { data: rows, error: mediaError } = await supabaseAdmin
+        .from("post_media")
+        .insert(
+          images.map((image, position) => ({
+            post_id: post.id,
+            position,
+            ...image,
+          }))
+        )
+        .select("position, url, width, height, placeholder");
+
+      if (mediaError) {
+        // Don't leave a post with only its cover behind
+        await supabaseAdmin.from("posts").delete().eq("id", post.id);
+        throw dbError(mediaError, "Error saving post images");
+      }
+      post = { ...post, media: rows as PostMedia[] };
+    }
+
+    return held
+      ? json({ held: true, post }, { status: 202 })
+      : json(post, { status: 201 });
+  });
+}
@@ -0,0 +1,50 @@
+import {
+  IMAGE_TYPES,
+  MAX_IMAGE_BYTES,
+  MAX_VIDEO_BYTES,
+  VIDEO_TYPES,
+} from "@/lib/limits";
+import { handle, json, HttpError } from "@/lib/server/http";
+import { int, oneOf, readJson } from "@/lib/server/validate";
+import { enforceRateLimit } from "@/lib/server/rate-limit";
+import { requireFlag } from "@/lib/server/flags";
+import { requireNotBanned } from "@/lib/server/bans";
+import { supabaseAdmin } from "@/lib/server/supabase";
+import {
+  isVideoType,
+  UPLOAD_BUCKET,
+  UPLOAD_EXTENSIONS,
+} from "@/lib/server/uploads";
+
+const MEDIA_TYPES = [...IMAGE_TYPES, ...VIDEO_TYPES];
+
+// POST /api/uploads { content_type, size } → { path, token }
+// The browser uploads straight to Storage with the signed token,
+// then passes `path` as media_path when creating the post, which
+// checks what was actually stored (src/lib/server/uploads.ts).
+export async function POST(request: Request) {
+  return handle(async () => {
+    const body = await readJson(request);
+    const contentType = oneOf(body.content_type, "content_type", MEDIA_TYPES);
+    const isVideo = isVideoType(contentType);
+    int(body.size, "size", {
+      min: 1,
+      max: isVideo ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES,
+    });
+    await requireNotBanned(request);
+    await requireFlag(request, "posting");
+    await requireFlag(request, isVideo ? "video_uploads" : "image_uploads");
+    await enforceRateLimit(request, "upload");
+
+    const path = `${crypto.randomUUID()}.${UPLOAD_EXTENSIONS[contentType]}`;
+    const { data, error } = await supabaseAdmin.storage
+      .from(UPLOAD_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error || !data) {
+      console.error("[api] Error signing upload:", error);
+      throw new HttpError(500, "upload_error", "Could not prepare upload");
+    }
+    return json({ path: data.path, token: data.token });
+  });
+}
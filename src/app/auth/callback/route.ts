@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { ADMIN_LOGIN_PATH, safeNextPath } from "@/lib/admin";
+import { createSessionClient } from "@/lib/server/admin";
+
+// GET /auth/callback?code=&next= — landing page for magic links.
+// Swaps the one-time code for a session cookie, then continues.
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+
+  if (code) {
+    const supabase = await createSessionClient();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (!error) {
+      const next = safeNextPath(url.searchParams.get("next"));
+      return NextResponse.redirect(new URL(next, url.origin));
+    }
+    console.error("Error exchanging auth code:", error);
+  }
+
+  return NextResponse.redirect(
+    new URL(`${ADMIN_LOGIN_PATH}?error=link_invalid`, url.origin)
+  );
+}
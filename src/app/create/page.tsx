@@ -2,33 +2,82 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { supabase } from "@/lib/supabase";
+import { api } from "@/lib/api";
 import { canPost, recordPost, postsRemaining } from "@/lib/rate-limit";
 import { trackEvent } from "@/lib/analytics";
+import { useFlag } from "@/lib/use-flag";
+import { processImage, ProcessedImage } from "@/lib/images";
+import { processVideo, ProcessedVideo } from "@/lib/videos";
+import { uploadMedia } from "@/lib/uploads";
+import {
+  IMAGE_TYPES,
+  ImageType,
+  MAX_CONTENT_CHARS,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGE_DIMENSION,
+  MAX_POST_IMAGES,
+  MAX_SOURCE_IMAGE_BYTES,
+  MAX_VIDEO_BYTES,
+  MAX_VIDEO_SECONDS,
+  VIDEO_TYPES,
+  VideoType,
+} from "@/lib/limits";
+
+// A processed image waiting to be uploaded
+interface PickedImage {
+  id: string;
+  image: ProcessedImage;
+  preview: string; // data: URL
+}
+
+function isVideo(file: File): boolean {
+  return VIDEO_TYPES.includes(file.type as VideoType);
+}
 
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
-const POSTING_DISABLED = true;
+function readDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = (ev) => resolve(ev.target?.result as string);
+    reader.readAsDataURL(blob);
+  });
+}
 
 export default function CreatePost() {
   const [content, setContent] = useState("");
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [images, setImages] = useState<PickedImage[]>([]); // in post order
+  const [video, setVideo] = useState<ProcessedVideo | null>(null); // never with images
+  const [videoPreview, setVideoPreview] = useState<string | null>(null); // its poster
+  const [processingMedia, setProcessingMedia] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [rateLimited, setRateLimited] = useState(false);
   const [waitSeconds, setWaitSeconds] = useState(0);
   const [remaining, setRemaining] = useState(3);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Set from the server's retryAfter; outlives cleared site data
+  const blockedUntilRef = useRef(0);
   const router = useRouter();
-
-  const maxChars = 255;
+  const posting = useFlag("posting");
+  const imageUploads = useFlag("image_uploads");
+  const videoUploads = useFlag("video_uploads");
+  // A video's poster is uploaded as an image
+  const videosAllowed = imageUploads.enabled && videoUploads.enabled;
+  const holdForReview = useFlag("hold_for_review");
+  const postingDisabled = !posting.enabled;
+
+  const maxChars = MAX_CONTENT_CHARS;
   const charsLeft = maxChars - content.length;
 
   useEffect(() => {
     const check = () => {
       const status = canPost();
-      setRateLimited(!status.allowed);
-      setWaitSeconds(status.waitSeconds);
-      setRemaining(postsRemaining());
+      const serverWait = Math.max(
+        0,
+        Math.ceil((blockedUntilRef.current - Date.now()) / 1000)
+      );
+      setRateLimited(!status.allowed || serverWait > 0);
+      setWaitSeconds(Math.max(status.waitSeconds, serverWait));
+      setRemaining(serverWait > 0 ? 0 : postsRemaining());
     };
     check();
     const interval = setInterval(check, 1000);
@@ -41,36 +90,135 @@ export default function CreatePost() {
     return m > 0 ? `${m}m ${s}s` : `${s}s`;
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const files = Array.from(input.files ?? []);
+    input.value = ""; // so a removed file can be picked again
+    if (files.length === 0) return;
 
-    if (!file.type.startsWith("image/")) {
-      alert("Only image files are allowed.");
-      e.target.value = "";
+    if (videosAllowed && files.some(isVideo)) {
+      if (files.length > 1 || images.length > 0) {
+        alert("A video has to be posted on its own.");
+        return;
+      }
+      await handleVideo(files[0]);
       return;
     }
 
-    if (file.size > MAX_FILE_SIZE) {
-      alert("Image must be under 5 MB.");
-      e.target.value = "";
+    const slots = MAX_POST_IMAGES - images.length;
+    if (files.length > slots) {
+      alert(`Posts can have up to ${MAX_POST_IMAGES} images.`);
+    }
+
+    setProcessingMedia(true);
+    for (const file of files.slice(0, slots)) {
+      const picked = await prepareImage(file);
+      if (picked) setImages((prev) => [...prev, picked]);
+    }
+    setProcessingMedia(false);
+  };
+
+  // Alerts and returns null when the file can't be used
+  const prepareImage = async (file: File): Promise<PickedImage | null> => {
+    if (!IMAGE_TYPES.includes(file.type as ImageType)) {
+      alert(
+        videosAllowed
+          ? "Only JPEG, PNG, GIF or WebP images and MP4, WebM or MOV videos are allowed."
+          : "Only JPEG, PNG, GIF or WebP images are allowed."
+      );
+      return null;
+    }
+
+    if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+      alert("Image must be under 20 MB.");
+      return null;
+    }
+
+    // Strip metadata and shrink before it ever leaves the device
+    let processed: ProcessedImage;
+    try {
+      processed = await processImage(file);
+    } catch (err) {
+      console.error("Error processing image:", err);
+      alert("Couldn't read that image. Please try another one.");
+      return null;
+    }
+
+    // Only GIFs can still be too big (they aren't re-encoded)
+    if (processed.blob.size > MAX_IMAGE_BYTES) {
+      alert("GIFs must be under 5 MB.");
+      return null;
+    }
+    if (Math.max(processed.width, processed.height) > MAX_IMAGE_DIMENSION) {
+      alert(`GIFs can be at most ${MAX_IMAGE_DIMENSION} pixels wide or tall.`);
+      return null;
+    }
+
+    // Preview the processed image: exactly what will be uploaded
+    return {
+      id: crypto.randomUUID(),
+      image: processed,
+      preview: await readDataUrl(processed.blob),
+    };
+  };
+
+  const handleVideo = async (file: File) => {
+    if (file.size > MAX_VIDEO_BYTES) {
+      alert("Videos must be under 25 MB.");
       return;
     }
 
-    setImageFile(file);
-    const reader = new FileReader();
-    reader.onload = (ev) => setImagePreview(ev.target?.result as string);
-    reader.readAsDataURL(file);
+    // Read its length, grab a poster frame and strip its metadata;
+    // the audio and video are uploaded as picked
+    setProcessingMedia(true);
+    let processed: ProcessedVideo;
+    try {
+      processed = await processVideo(file);
+    } catch (err) {
+      console.error("Error processing video:", err);
+      alert("Couldn't play that video. Please try another one.");
+      setProcessingMedia(false);
+      return;
+    }
+    setProcessingMedia(false);
+
+    if (processed.duration > MAX_VIDEO_SECONDS) {
+      alert(`Videos can be up to ${MAX_VIDEO_SECONDS} seconds long.`);
+      return;
+    }
+
+    setVideo(processed);
+    setVideoPreview(await readDataUrl(processed.poster.blob));
   };
 
-  const removeImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
-    if (fileInputRef.current) fileInputRef.current.value = "";
+  const removeImage = (index: number) => {
+    setImages((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // The first image is the cover
+  const moveImage = (index: number, by: -1 | 1) => {
+    setImages((prev) => {
+      const next = [...prev];
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+  };
+
+  const removeVideo = () => {
+    setVideo(null);
+    setVideoPreview(null);
+  };
+
+  const blockFor = (seconds: number) => {
+    blockedUntilRef.current = Date.now() + seconds * 1000;
+    setRateLimited(true);
+    setWaitSeconds(seconds);
+    setRemaining(0);
+    setSubmitting(false);
   };
 
   const handleSubmit = async () => {
-    if (POSTING_DISABLED) return;
+    if (postingDisabled) return;
 
     const trimmed = content.trim();
     if (!trimmed) return;
@@ -84,41 +232,80 @@ export default function CreatePost() {
 
     setSubmitting(true);
 
-    let mediaUrl: string | null = null;
-    let mediaType: string | null = null;
-
-    if (imageFile) {
-      const fileExt = imageFile.name.split(".").pop()?.toLowerCase() ?? "jpg";
-      const fileName = `${crypto.randomUUID()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from("post-images")
-        .upload(fileName, imageFile, {
-          contentType: imageFile.type,
-          upsert: false,
-        });
-
+    // A video goes up with its poster, which also provides its
+    // placeholder
+    const postVideo = videosAllowed ? video : null;
+    const postImages = imageUploads.enabled ? images : [];
+    const files = postVideo
+      ? [postVideo, postVideo.poster]
+      : postImages.map((p) => p.image);
+    let mediaPaths: string[] = [];
+
+    if (files.length > 0) {
+      // The server picks the object names and signs one-off uploads
+      setUploadProgress(0);
+      const { data: paths, error: uploadError } = await uploadMedia(
+        files,
+        setUploadProgress
+      );
+      setUploadProgress(null);
+
+      if (uploadError?.code === "rate_limited") {
+        blockFor(uploadError.retryAfter);
+        return;
+      }
+      if (uploadError?.code === "banned") {
+        alert(uploadError.message);
+        setSubmitting(false);
+        return;
+      }
       if (uploadError) {
-        console.error("Error uploading image:", uploadError);
-        alert("Failed to upload image. Please try again.");
+        console.error("Error uploading media:", uploadError);
+        alert(`Failed to upload ${postVideo ? "video" : "images"}. Please try again.`);
         setSubmitting(false);
         return;
       }
 
-      const { data: urlData } = supabase.storage
-        .from("post-images")
-        .getPublicUrl(fileName);
-
-      mediaUrl = urlData.publicUrl;
-      mediaType = "image";
+      mediaPaths = paths;
     }
 
-    const { error } = await supabase.from("posts").insert({
-      content: trimmed,
-      media_url: mediaUrl,
-      media_type: mediaType,
-    });
-
+    const { data: created, error } = await api.post<{ held?: boolean }>(
+      "/api/posts",
+      postVideo
+        ? {
+            content: trimmed,
+            media_path: mediaPaths[0],
+            media_poster_path: mediaPaths[1],
+            media_width: postVideo.width,
+            media_height: postVideo.height,
+            media_placeholder: postVideo.poster.placeholder,
+          }
+        : {
+            content: trimmed,
+            images: mediaPaths.length
+              ? postImages.map(({ image }, i) => ({
+                  path: mediaPaths[i],
+                  width: image.width,
+                  height: image.height,
+                  placeholder: image.placeholder,
+                }))
+              : null,
+          }
+    );
+
+    if (error?.code === "rate_limited") {
+      blockFor(error.retryAfter);
+      return;
+    }
+    if (
+      error?.code === "feature_disabled" ||
+      error?.code === "content_rejected" ||
+      error?.code === "banned"
+    ) {
+      alert(error.message);
+      setSubmitting(false);
+      return;
+    }
     if (error) {
       console.error("Error creating post:", error);
       alert("Failed to post. Please try again.");
@@ -127,7 +314,12 @@ export default function CreatePost() {
     }
 
     recordPost();
-    trackEvent("post_created");
+    trackEvent("post_created", { metadata: { held: !!created?.held } });
+    if (created?.held) {
+      alert(
+        "Thanks! Only you can see your post until a moderator approves it."
+      );
+    }
     router.push("/");
   };
 
@@ -142,16 +334,24 @@ export default function CreatePost() {
           &larr; Back
         </button>
         <h1 className="text-lg font-bold text-white">
-          {POSTING_DISABLED ? "Create Post (Disabled)" : "New Post"}
+          {posting.ready && postingDisabled
+            ? "Create Post (Disabled)"
+            : "New Post"}
         </h1>
         <div className="w-12" />
       </header>
 
       {/* Form */}
       <main className="max-w-lg mx-auto px-4 py-6">
-        {POSTING_DISABLED && (
+        {posting.ready && postingDisabled && (
           <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl text-sm text-yellow-300">
-            Posting has been temporarily disabled due to community guidelines. The create button remains visible for future use.
+            {posting.message ?? "Posting is currently disabled."}
+          </div>
+        )}
+        {!postingDisabled && holdForReview.enabled && (
+          <div className="mb-4 p-3 bg-white/5 border border-white/15 rounded-xl text-sm text-white/60">
+            New posts are reviewed by a moderator before they appear in the
+            feed. Until then, only you can see yours.
           </div>
         )}
         {rateLimited && (
@@ -179,14 +379,14 @@ export default function CreatePost() {
             placeholder={
               rateLimited
                 ? "Please wait before posting again..."
-                : POSTING_DISABLED
+                : postingDisabled
                 ? "Posting is currently disabled"
                 : "What's on your mind?"
             }
             rows={4}
             className="w-full resize-none outline-none bg-transparent text-white text-[15px] placeholder-white/30"
             autoFocus
-            disabled={rateLimited || POSTING_DISABLED}
+            disabled={rateLimited || postingDisabled}
           />
 
           <div className="mt-2 text-right text-sm text-white/30">
@@ -199,70 +399,150 @@ export default function CreatePost() {
           </div>
         </div>
 
-        {/* Image upload */}
-        <div className="mt-1">
-          {imagePreview ? (
-            <div className="relative rounded-2xl overflow-hidden border border-white/15">
-              <img
-                src={imagePreview}
-                alt="Preview"
-                className="w-full max-h-64 object-cover"
-              />
+        {/* Image or video upload */}
+        {imageUploads.enabled && (
+          <div className="mt-1">
+            {video && videoPreview ? (
+              <div className="relative rounded-2xl overflow-hidden border border-white/15">
+                <img
+                  src={videoPreview}
+                  alt="Preview"
+                  className="w-full max-h-64 object-cover"
+                />
+                <span className="absolute bottom-2 left-2 bg-black/60 text-white text-xs font-medium rounded-full px-2 py-1">
+                  &#9654; {Math.round(video.duration)}s
+                </span>
+                <button
+                  onClick={removeVideo}
+                  className="absolute top-2 right-2 bg-black/60 text-white w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold hover:bg-black/80"
+                >
+                  &times;
+                </button>
+              </div>
+            ) : images.length > 0 ? (
+              <div className="grid grid-cols-2 gap-2">
+                {images.map(({ id, preview }, i) => (
+                  <div
+                    key={id}
+                    className="relative rounded-2xl overflow-hidden border border-white/15"
+                  >
+                    <img
+                      src={preview}
+                      alt={`Image ${i + 1}`}
+                      className="w-full h-36 object-cover"
+                    />
+                    {i === 0 && images.length > 1 && (
+                      <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-medium rounded-full px-2 py-1">
+                        Cover
+                      </span>
+                    )}
+                    <button
+                      onClick={() => removeImage(i)}
+                      aria-label="Remove image"
+                      className="absolute top-2 right-2 bg-black/60 text-white w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold hover:bg-black/80"
+                    >
+                      &times;
+                    </button>
+                    {images.length > 1 && (
+                      <div className="absolute bottom-2 right-2 flex gap-1">
+                        <button
+                          onClick={() => moveImage(i, -1)}
+                          disabled={i === 0}
+                          aria-label="Move earlier"
+                          className="bg-black/60 text-white w-7 h-7 rounded-full flex items-center justify-center text-sm hover:bg-black/80 disabled:opacity-30"
+                        >
+                          &larr;
+                        </button>
+                        <button
+                          onClick={() => moveImage(i, 1)}
+                          disabled={i === images.length - 1}
+                          aria-label="Move later"
+                          className="bg-black/60 text-white w-7 h-7 rounded-full flex items-center justify-center text-sm hover:bg-black/80 disabled:opacity-30"
+                        >
+                          &rarr;
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                {images.length < MAX_POST_IMAGES && (
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={rateLimited || postingDisabled || processingMedia}
+                    className="h-36 border-2 border-dashed border-white/15 rounded-2xl flex flex-col items-center justify-center gap-1 text-white/30 hover:border-white/30 hover:text-white/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <span className="text-2xl">+</span>
+                    <span className="text-sm font-medium">
+                      {processingMedia
+                        ? "Preparing..."
+                        : `${MAX_POST_IMAGES - images.length} more`}
+                    </span>
+                  </button>
+                )}
+              </div>
+            ) : (
               <button
-                onClick={removeImage}
-                className="absolute top-2 right-2 bg-black/60 text-white w-7 h-7 rounded-full flex items-center justify-center text-sm font-bold hover:bg-black/80"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={rateLimited || postingDisabled || processingMedia}
+                className="w-full border-2 border-dashed border-white/15 rounded-2xl py-12 flex flex-col items-center gap-3 text-white/30 hover:border-white/30 hover:text-white/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                &times;
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="48"
+                  height="48"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
+                  <circle cx="8.5" cy="8.5" r="1.5" />
+                  <polyline points="21 15 16 10 5 21" />
+                </svg>
+                <span className="text-base font-medium">
+                  {processingMedia
+                    ? "Preparing..."
+                    : videosAllowed
+                      ? "Add images or a video"
+                      : "Add images"}
+                </span>
+                <span className="text-sm">
+                  Up to {MAX_POST_IMAGES} &middot; JPEG, PNG, GIF, WebP &middot; Max 20 MB each
+                </span>
+                {videosAllowed && (
+                  <span className="text-sm">
+                    MP4, WebM, MOV &middot; Up to {MAX_VIDEO_SECONDS}s, 25 MB
+                  </span>
+                )}
               </button>
-            </div>
-          ) : (
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={rateLimited || POSTING_DISABLED}
-              className="w-full border-2 border-dashed border-white/15 rounded-2xl py-12 flex flex-col items-center gap-3 text-white/30 hover:border-white/30 hover:text-white/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                width="48"
-                height="48"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              >
-                <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
-                <circle cx="8.5" cy="8.5" r="1.5" />
-                <polyline points="21 15 16 10 5 21" />
-              </svg>
-              <span className="text-base font-medium">Add an image</span>
-              <span className="text-sm">JPEG, PNG, GIF, WebP &middot; Max 5 MB</span>
-            </button>
-          )}
-
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/jpeg,image/png,image/gif,image/webp"
-            onChange={handleFileChange}
-            className="hidden"
-          />
-        </div>
+            )}
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={[...IMAGE_TYPES, ...(videosAllowed ? VIDEO_TYPES : [])].join(",")}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+        )}
 
         {/* Submit */}
         <button
           onClick={handleSubmit}
-          disabled={submitting || content.trim().length === 0 || rateLimited || POSTING_DISABLED}
+          disabled={submitting || processingMedia || content.trim().length === 0 || rateLimited || postingDisabled}
           className="mt-4 w-full bg-white/15 border border-white/20 text-white py-3 rounded-2xl font-semibold text-base hover:bg-white/25 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
         >
           {submitting
-            ? imageFile
-              ? "Uploading image..."
+            ? uploadProgress !== null
+              ? `Uploading ${video ? "video" : images.length > 1 ? "images" : "image"}... ${Math.round(uploadProgress * 100)}%`
               : "Posting..."
             : rateLimited
               ? "Rate Limited"
-              : POSTING_DISABLED
+              : postingDisabled
               ? "Posting Disabled"
               : "Post"}
         </button>
@@ -1,93 +1,25 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import { supabase } from "@/lib/supabase";
-
-interface DashboardData {
-  totalPosts: number;
-  totalLikes: number;
-  totalFeedback: number;
-  happyCount: number;
-  normalCount: number;
-  sadCount: number;
-  happyPercent: number;
-  sadPercent: number;
-  totalShares: number;
-}
-
-const EMPTY: DashboardData = {
-  totalPosts: 0,
-  totalLikes: 0,
-  totalFeedback: 0,
-  happyCount: 0,
-  normalCount: 0,
-  sadCount: 0,
-  happyPercent: 0,
-  sadPercent: 0,
-  totalShares: 0,
-};
+import { api } from "@/lib/api";
+import { AnalyticsSummary, EMPTY_SUMMARY } from "@/lib/metrics";
 
 export default function AnalyticsDashboard() {
-  const [data, setData] = useState<DashboardData>(EMPTY);
+  const [data, setData] = useState<AnalyticsSummary>(EMPTY_SUMMARY);
   const [loading, setLoading] = useState(true);
 
   const fetchDashboard = useCallback(async () => {
     setLoading(true);
 
-    // Run all queries in parallel
-    const [postsRes, feedbackRes, sharesRes] = await Promise.all([
-      // 1. Posts: count + total likes
-      supabase.from("posts").select("likes"),
-
-      // 2. Feedback: all ratings
-      supabase.from("feedback").select("rating"),
-
-      // 3. Analytics events: count share_post events
-      supabase
-        .from("analytics_events")
-        .select("id")
-        .eq("event_name", "share_post"),
-    ]);
-
-    // --- Posts ---
-    const posts = postsRes.data ?? [];
-    const totalPosts = posts.length;
-    const totalLikes = posts.reduce(
-      (sum, p) => sum + ((p as { likes: number }).likes ?? 0),
-      0
+    const { data: summary, error } = await api.get<AnalyticsSummary>(
+      "/api/metrics/summary"
     );
 
-    // --- Feedback ---
-    const feedbackRows = feedbackRes.data ?? [];
-    const totalFeedback = feedbackRows.length;
-    const happyCount = feedbackRows.filter(
-      (f) => (f as { rating: string }).rating === "happy"
-    ).length;
-    const normalCount = feedbackRows.filter(
-      (f) => (f as { rating: string }).rating === "normal"
-    ).length;
-    const sadCount = feedbackRows.filter(
-      (f) => (f as { rating: string }).rating === "sad"
-    ).length;
-    const happyPercent =
-      totalFeedback > 0 ? Math.round((happyCount / totalFeedback) * 100) : 0;
-    const sadPercent =
-      totalFeedback > 0 ? Math.round((sadCount / totalFeedback) * 100) : 0;
-
-    // --- Shares ---
-    const totalShares = (sharesRes.data ?? []).length;
-
-    setData({
-      totalPosts,
-      totalLikes,
-      totalFeedback,
-      happyCount,
-      normalCount,
-      sadCount,
-      happyPercent,
-      sadPercent,
-      totalShares,
-    });
+    if (error) {
+      console.error("Error fetching analytics:", error);
+    } else {
+      setData(summary);
+    }
 
     setLoading(false);
   }, []);
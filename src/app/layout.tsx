@@ -10,6 +10,10 @@ const geistSans = Geist({
 });
 
 export const metadata: Metadata = {
+  // Absolute base for Open Graph URLs (post permalinks, share cards)
+  metadataBase: new URL(
+    process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000"
+  ),
   title: "PampSalseo",
   description: "anonymous social posting for students in pamplona",
   icons: {
@@ -0,0 +1,149 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ImageResponse } from "next/og";
+import { getPostById } from "@/lib/server/posts";
+import { hasImage, hasVideo } from "@/lib/format";
+
+// ============================================================
+// Branded share card for a post
+//   /p/[id]/card               1200×630 (og:image)
+//   /p/[id]/card?format=story  1080×1920 (Instagram/WhatsApp stories)
+// ============================================================
+
+const FORMATS = {
+  og: { width: 1200, height: 630, padding: 64, logo: 88 },
+  story: { width: 1080, height: 1920, padding: 96, logo: 160 },
+} as const;
+
+type CardFormat = keyof typeof FORMATS;
+
+const MAROON = "#4a1a25";
+const MAROON_DARK = "#1a0a0e";
+
+/**
+ * Font size that keeps up to 255 characters inside the text area.
+ * Steps down as content grows instead of clipping it.
+ */
+function fontSizeFor(length: number, format: CardFormat, withImage: boolean): number {
+  const steps =
+    format === "story"
+      ? [[60, 76], [120, 64], [180, 54], [Infinity, 46]]
+      : [[60, 56], [120, 44], [180, 36], [Infinity, 31]];
+  const size = steps.find(([max]) => length <= max)![1];
+  return withImage ? Math.round(size * 0.8) : size;
+}
+
+let logoDataUrl: Promise<string> | null = null;
+
+function loadLogo(): Promise<string> {
+  logoDataUrl ??= readFile(
+    join(process.cwd(), "public/assets/logosalseo.png")
+  ).then((buf) => `data:image/png;base64,${buf.toString("base64")}`);
+  return logoDataUrl;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const post = await getPostById(id);
+  if (!post) return new Response("Not found", { status: 404 });
+
+  const format: CardFormat =
+    new URL(request.url).searchParams.get("format") === "story" ? "story" : "og";
+  const { width, height, padding, logo } = FORMATS[format];
+  // Videos are shown by their poster frame
+  const imageUrl = hasImage(post)
+    ? post.media_url
+    : hasVideo(post)
+      ? post.media_poster_url
+      : null;
+  const withImage = !!imageUrl;
+  const fontSize = fontSizeFor(post.content.length, format, withImage);
+
+  const image = new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          padding,
+          color: "white",
+          background: `linear-gradient(165deg, ${MAROON_DARK} 0%, ${MAROON} 100%)`,
+        }}
+      >
+        {/* Brand */}
+        <div style={{ display: "flex", alignItems: "center", gap: logo / 4 }}>
+          <img
+            src={await loadLogo()}
+            width={logo}
+            height={logo}
+            alt=""
+            style={{ borderRadius: logo / 2 }}
+          />
+          <span style={{ fontSize: logo / 3, opacity: 0.8 }}>Un@vSalseo</span>
+        </div>
+
+        {/* Post */}
+        <div
+          style={{
+            flex: 1,
+            display: "flex",
+            flexDirection: format === "story" ? "column" : "row",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: padding / 2,
+            marginTop: padding / 2,
+            marginBottom: padding / 2,
+          }}
+        >
+          <div
+            style={{
+              flex: format === "og" ? 1 : undefined,
+              display: "flex",
+              fontSize,
+              lineHeight: 1.35,
+              whiteSpace: "pre-wrap",
+              wordBreak: "break-word",
+            }}
+          >
+            {`"${post.content}"`}
+          </div>
+          {withImage && (
+            <img
+              src={imageUrl!}
+              alt=""
+              style={{
+                width: format === "story" ? "100%" : 380,
+                height: format === "story" ? 720 : 380,
+                objectFit: "cover",
+                borderRadius: 24,
+              }}
+            />
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            fontSize: logo / 3,
+          }}
+        >
+          <span>❤️ {post.likes}</span>
+          <span style={{ opacity: 0.6 }}>PampSalseo</span>
+        </div>
+      </div>
+    ),
+    { width, height, emoji: "twemoji" }
+  );
+
+  // Like counts drift, so only cache briefly
+  image.headers.set("Cache-Control", "public, max-age=300, s-maxage=300");
+  return image;
+}
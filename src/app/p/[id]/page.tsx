@@ -0,0 +1,86 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getPostById } from "@/lib/server/posts";
+import { truncate } from "@/lib/format";
+import SinglePost from "@/components/SinglePost";
+import SaveCardButton from "@/components/SaveCardButton";
+
+interface PostPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Shared by generateMetadata and the page within one request
+const getPost = cache(getPostById);
+
+export async function generateMetadata({
+  params,
+}: PostPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const post = await getPost(id);
+  if (!post) return { title: "Post not found" };
+
+  const title = truncate(post.content, 60);
+  const description = truncate(post.content, 200);
+  const card = { url: `/p/${post.id}/card`, width: 1200, height: 630 };
+
+  return {
+    title,
+    description,
+    openGraph: {
+      type: "article",
+      url: `/p/${post.id}`,
+      siteName: "PampSalseo",
+      title,
+      description,
+      publishedTime: post.created_at,
+      images: [card],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [card.url],
+    },
+  };
+}
+
+export default async function PostPage({ params }: PostPageProps) {
+  const { id } = await params;
+  const post = await getPost(id);
+  if (!post) notFound();
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="sticky top-0 z-10 backdrop-blur-xl bg-maroon-950/80 border-b border-white/10 px-5 py-3 flex items-center justify-between">
+        <Link
+          href="/"
+          className="text-sm text-white/60 font-medium hover:text-white transition-colors"
+        >
+          &larr; Feed
+        </Link>
+        <img
+          src="/assets/logosalseo.png"
+          alt="Un@vSalseo"
+          className="h-12 w-12 rounded-full object-cover"
+        />
+        <div className="w-12" />
+      </header>
+
+      <main className="max-w-lg mx-auto px-4 py-6">
+        <SinglePost post={post} />
+
+        <SaveCardButton postId={post.id} />
+
+        <Link
+          href="/"
+          className="mt-6 block w-full text-center bg-white/15 border border-white/20 text-white py-3 rounded-2xl font-semibold text-base hover:bg-white/25 transition-colors"
+        >
+          See more posts
+        </Link>
+      </main>
+    </div>
+  );
+}
@@ -2,18 +2,37 @@
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { supabase } from "@/lib/supabase";
-import { Post } from "@/lib/types";
+import { Post, ReactionType } from "@/lib/types";
 import {
+  DEFAULT_FEED_MODE,
+  FeedMode,
+  fetchFeedPage,
+  fetchPendingPosts,
+} from "@/lib/feed";
+import { likePost } from "@/lib/likes";
+import { reactToPost } from "@/lib/reactions";
+import { subscribeToPosts } from "@/lib/realtime";
+import { hasImage, hasVideo } from "@/lib/format";
+import { useFlag } from "@/lib/use-flag";
+import {
+  LIKE_LIMIT_PER_POST,
   canLikePost,
   recordLike,
+  exhaustLikes,
   remainingLikes,
+  getReactionsGiven,
+  recordReaction,
   canFetch,
   recordFetch,
 } from "@/lib/rate-limit";
 import FeedbackModal from "@/components/FeedbackModal";
 import FirstTimeWelcomeModal from "@/components/FirstTimeWelcomeModal";
-import ShareButton from "@/components/ShareButton";
+import PostCard from "@/components/PostCard";
+import PendingPostCard from "@/components/PendingPostCard";
+import FeedSortSwitcher from "@/components/FeedSortSwitcher";
+import NewPostsBanner from "@/components/NewPostsBanner";
+import AnnouncementBanner from "@/components/AnnouncementBanner";
+import VirtualMasonry from "@/components/VirtualMasonry";
 
 // ===== Configuration =====
 const PAGE_SIZE = 15;
@@ -22,6 +41,31 @@ const FEEDBACK_DELAY_MS = 5 * 60 * 1000;
 const FEEDBACK_SESSION_KEY = "sg_feedback_shown";
 const WELCOME_SHOWN_KEY = "sg_welcome_shown";
 
+// Rough card height before it's measured (see VirtualMasonry)
+const CARD_CHROME_PX = 190; // padding, reactions, footer, comments toggle
+const LINE_HEIGHT_PX = 24;
+const CHAR_WIDTH_PX = 8;
+
+function estimateCardHeight(post: Post, columnWidth: number): number {
+  const textWidth = columnWidth * 0.95 - 32;
+  const lines = Math.max(
+    1,
+    Math.ceil((post.content.length * CHAR_WIDTH_PX) / textWidth)
+  );
+  let height = CARD_CHROME_PX + lines * LINE_HEIGHT_PX;
+  if (hasImage(post) || hasVideo(post)) {
+    const ratio =
+      post.media_width && post.media_height
+        ? post.media_height / post.media_width
+        : 3 / 4;
+    height += columnWidth * 0.95 * 0.9 * ratio + 8;
+  }
+  if (post.pinned_at || post.featured) height += 24;
+  return height;
+}
+
+const postKey = (post: Post) => post.id;
+
 export default function Home() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true); // initial load
@@ -31,58 +75,72 @@ export default function Home() {
   const [refreshing, setRefreshing] = useState(false);
   const [pullDistance, setPullDistance] = useState(0);
   const [showFeedback, setShowFeedback] = useState(false);
+  const feedbackSurvey = useFlag("feedback_survey");
   const [showWelcome, setShowWelcome] = useState(false);
-  const [masonryReady, setMasonryReady] = useState(false);
+  const [feedMode, setFeedMode] = useState<FeedMode>(DEFAULT_FEED_MODE);
+  const [incomingPosts, setIncomingPosts] = useState<Post[]>([]); // realtime, not yet shown
+  const [pendingPosts, setPendingPosts] = useState<Post[]>([]); // ours, awaiting review
   const router = useRouter();
 
   const [likesLeft, setLikesLeft] = useState<Record<string, number>>({});
+  const [reactionsGiven, setReactionsGiven] = useState<
+    Record<string, ReactionType[]>
+  >({});
 
   // Refs
-  const gridRef = useRef<HTMLDivElement>(null);
   const sentinelRef = useRef<HTMLDivElement>(null);
-  const pageRef = useRef(0); // current page index (0-based)
+  const cursorRef = useRef<string | null>(null); // keyset cursor for the next page
   const isFetchingRef = useRef(false); // prevent concurrent fetches
   const pullStartY = useRef(0);
   const isPulling = useRef(false);
   const pullDistanceRef = useRef(0);
   const refreshingRef = useRef(false);
+  const pendingIdsRef = useRef<Set<string>>(new Set()); // for the realtime handler
+  const feedModeRef = useRef(feedMode); // for the realtime handler
 
-  const syncLikesLeft = useCallback((postList: Post[]) => {
-    const map: Record<string, number> = {};
+  // Mirror this device's likes/reactions (localStorage) for rendering
+  const syncDeviceState = useCallback((postList: Post[]) => {
+    const likes: Record<string, number> = {};
+    const reactions: Record<string, ReactionType[]> = {};
     for (const p of postList) {
-      map[p.id] = remainingLikes(p.id);
+      likes[p.id] = remainingLikes(p.id);
+      reactions[p.id] = getReactionsGiven(p.id) as ReactionType[];
     }
-    setLikesLeft(map);
+    setLikesLeft(likes);
+    setReactionsGiven(reactions);
   }, []);
 
-  // ===== FETCH: Initial load (page 0) =====
+  // ===== FETCH: Initial load (first page) =====
   const fetchInitialPosts = useCallback(async () => {
     setLoading(true);
     setHasMore(true);
-    pageRef.current = 0;
+    cursorRef.current = null;
     isFetchingRef.current = true;
 
-    const from = 0;
-    const to = PAGE_SIZE - 1;
+    const [{ data, error }, pending] = await Promise.all([
+      fetchFeedPage(feedMode, null, PAGE_SIZE),
+      fetchPendingPosts(),
+    ]);
 
-    const { data, error } = await supabase
-      .from("posts")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .range(from, to);
+    if (pending.error) {
+      console.error("Error fetching pending posts:", pending.error);
+    } else {
+      setPendingPosts(pending.data);
+    }
 
-    if (error) {
+    if (error || !data) {
       console.error("Error fetching posts:", error);
     } else {
-      const fetched = data as Post[];
-      setPosts(fetched);
-      syncLikesLeft(fetched);
-      if (fetched.length < PAGE_SIZE) setHasMore(false);
+      cursorRef.current = data.cursor;
+      setIncomingPosts([]); // a fresh first page already includes them
+      setPosts(data.items);
+      syncDeviceState(data.items);
+      setHasMore(data.hasMore);
     }
 
     setLoading(false);
     isFetchingRef.current = false;
-  }, [syncLikesLeft]);
+  }, [feedMode, syncDeviceState]);
 
   // ===== FETCH: Next page (append) =====
   const fetchNextPage = useCallback(async () => {
@@ -90,28 +148,25 @@ export default function Home() {
     isFetchingRef.current = true;
     setLoadingMore(true);
 
-    const nextPage = pageRef.current + 1;
-    const from = nextPage * PAGE_SIZE;
-    const to = from + PAGE_SIZE - 1;
-
-    const { data, error } = await supabase
-      .from("posts")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .range(from, to);
+    const { data, error } = await fetchFeedPage(
+      feedMode,
+      cursorRef.current,
+      PAGE_SIZE
+    );
 
-    if (error) {
+    if (error || !data) {
       console.error("Error fetching more posts:", error);
     } else {
-      const fetched = data as Post[];
-      if (fetched.length < PAGE_SIZE) setHasMore(false);
+      const fetched = data.items;
+      setHasMore(data.hasMore);
       if (fetched.length > 0) {
-        pageRef.current = nextPage;
+        cursorRef.current = data.cursor;
+        // Hot and top scores move between pages: skip repeats
         setPosts((prev) => {
           const existingIds = new Set(prev.map((p) => p.id));
           const newPosts = fetched.filter((p) => !existingIds.has(p.id));
           const merged = [...prev, ...newPosts];
-          syncLikesLeft(merged);
+          syncDeviceState(merged);
           return merged;
         });
       }
@@ -119,7 +174,7 @@ export default function Home() {
 
     setLoadingMore(false);
     isFetchingRef.current = false;
-  }, [hasMore, syncLikesLeft]);
+  }, [feedMode, hasMore, syncDeviceState]);
 
   // ===== Refresh (pull-to-refresh + button) =====
   const handleRefresh = useCallback(async () => {
@@ -132,18 +187,88 @@ export default function Home() {
     recordFetch();
     refreshingRef.current = true;
     setRefreshing(true);
-    setMasonryReady(false);
     await fetchInitialPosts();
     setRefreshing(false);
     refreshingRef.current = false;
   }, [fetchInitialPosts]);
 
-  // Initial load
+  // ===== Sort switch: start over from the top in the new order =====
+  const handleModeChange = (mode: FeedMode) => {
+    if (mode.sort === feedMode.sort && mode.period === feedMode.period) return;
+    window.scrollTo({ top: 0 });
+    setFeedMode(mode);
+  };
+
+  // Initial load (re-runs when the feed mode changes)
   useEffect(() => {
     recordFetch();
     fetchInitialPosts();
   }, [fetchInitialPosts]);
 
+  useEffect(() => {
+    pendingIdsRef.current = new Set(pendingPosts.map((p) => p.id));
+  }, [pendingPosts]);
+
+  useEffect(() => {
+    feedModeRef.current = feedMode;
+  }, [feedMode]);
+
+  // ===== REALTIME: buffer new posts, patch like counts in place =====
+  // Only the "new" feed takes new posts at the top; in hot and top
+  // they'd be out of order, so they show up on the next refresh.
+  useEffect(() => {
+    const bufferNewPost = (post: Post) => {
+      if (feedModeRef.current.sort !== "new") return;
+      setIncomingPosts((prev) =>
+        prev.some((p) => p.id === post.id) ? prev : [post, ...prev]
+      );
+    };
+
+    return subscribeToPosts({
+      onInsert: (post) => {
+        // Held posts are inserted as pending
+        if (post.status === "published") bufferNewPost(post);
+      },
+      onUpdate: (post) => {
+        // One of our pending posts was approved: it joins the feed
+        // like any other new post
+        if (post.status === "published" && pendingIdsRef.current.has(post.id)) {
+          setPendingPosts((prev) => prev.filter((p) => p.id !== post.id));
+          bufferNewPost(post);
+          return;
+        }
+        const patch = (list: Post[]) =>
+          list.map((p) =>
+            p.id === post.id
+              ? {
+                  ...p,
+                  likes: post.likes,
+                  hot_score: post.hot_score,
+                  reactions: post.reactions,
+                }
+              : p
+          );
+        setPosts(patch);
+        setIncomingPosts(patch);
+      },
+    });
+  }, []);
+
+  // Insert buffered posts below the pinned ones; the cursor points
+  // at the tail, so infinite scroll carries on exactly where it was.
+  const showIncomingPosts = () => {
+    setPosts((prev) => {
+      const existingIds = new Set(prev.map((p) => p.id));
+      const fresh = incomingPosts.filter((p) => !existingIds.has(p.id));
+      const pinned = prev.filter((p) => p.pinned_at);
+      const rest = prev.filter((p) => !p.pinned_at);
+      const merged = [...pinned, ...fresh, ...rest];
+      syncDeviceState(merged);
+      return merged;
+    });
+    setIncomingPosts([]);
+  };
+
   // Pull-to-refresh with visual indicator
   useEffect(() => {
     const handleTouchStart = (e: TouchEvent) => {
@@ -221,74 +346,8 @@ export default function Home() {
     }
   }, []);
 
-  // ===== MASONRY ENGINE =====
-  const layoutMasonry = useCallback(() => {
-    const container = gridRef.current;
-    if (!container) return;
-
-    const children = Array.from(container.children) as HTMLElement[];
-    if (!children.length) return;
-
-    const containerWidth = container.offsetWidth;
-    let cols = 1;
-    if (window.innerWidth >= 1024) cols = 3;
-    else if (window.innerWidth >= 768) cols = 2;
-
-    if (cols === 1) {
-      children.forEach((c) => {
-        c.style.position = "";
-        c.style.transform = "";
-        c.style.width = "";
-      });
-      container.style.height = "";
-      setMasonryReady(true);
-      return;
-    }
-
-    const colWidth = (containerWidth - MASONRY_GAP * (cols - 1)) / cols;
-    const colHeights = new Array(cols).fill(0);
-
-    children.forEach((card) => {
-      card.style.position = "absolute";
-      card.style.width = `${colWidth}px`;
-      const shortest = colHeights.indexOf(Math.min(...colHeights));
-      const x = shortest * (colWidth + MASONRY_GAP);
-      const y = colHeights[shortest];
-      card.style.transform = `translate(${x}px, ${y}px)`;
-      colHeights[shortest] += card.offsetHeight + MASONRY_GAP;
-    });
-
-    container.style.height = `${Math.max(...colHeights)}px`;
-    setMasonryReady(true);
-  }, []);
-
-  // Re-layout when posts change (initial or appended)
-  useEffect(() => {
-    if (posts.length === 0) return;
-
-    const timer = setTimeout(layoutMasonry, 50);
-
-    const ro = new ResizeObserver(() => layoutMasonry());
-    if (gridRef.current) ro.observe(gridRef.current);
-
-    const container = gridRef.current;
-    if (container) {
-      const imgs = container.querySelectorAll("img");
-      imgs.forEach((img) => {
-        if (!img.complete) {
-          img.addEventListener("load", layoutMasonry, { once: true });
-        }
-      });
-    }
-
-    return () => {
-      clearTimeout(timer);
-      ro.disconnect();
-    };
-  }, [posts, layoutMasonry]);
-
   // ===== Like handler =====
-  const handleLike = async (postId: string, currentLikes: number) => {
+  const handleLike = async (postId: string) => {
     if (!canLikePost(postId)) return;
     const allowed = recordLike(postId);
     if (!allowed) return;
@@ -298,41 +357,70 @@ export default function Home() {
       [postId]: remainingLikes(postId),
     }));
 
+    // Optimistic +1; the server's count replaces it once it answers
     setPosts((prev) =>
-      prev.map((p) =>
-        p.id === postId ? { ...p, likes: currentLikes + 1 } : p
-      )
+      prev.map((p) => (p.id === postId ? { ...p, likes: p.likes + 1 } : p))
     );
 
-    const { error } = await supabase
-      .from("posts")
-      .update({ likes: currentLikes + 1 })
-      .eq("id", postId);
+    const result = await likePost(postId);
 
-    if (error) {
-      console.error("Error liking post:", error);
+    if (result.ok) {
       setPosts((prev) =>
-        prev.map((p) =>
-          p.id === postId ? { ...p, likes: currentLikes } : p
-        )
+        prev.map((p) => (p.id === postId ? { ...p, likes: result.likes } : p))
       );
+      return;
     }
-  };
 
-  const timeAgo = (dateStr: string) => {
-    const seconds = Math.floor(
-      (Date.now() - new Date(dateStr).getTime()) / 1000
+    if (result.reason === "limit_reached") {
+      exhaustLikes(postId);
+      setLikesLeft((prev) => ({ ...prev, [postId]: 0 }));
+    }
+    if (result.reason === "banned" || result.reason === "rate_limited") {
+      alert(result.message);
+    }
+    setPosts((prev) =>
+      prev.map((p) => (p.id === postId ? { ...p, likes: p.likes - 1 } : p))
     );
-    if (seconds < 60) return `${seconds}s`;
-    const minutes = Math.floor(seconds / 60);
-    if (minutes < 60) return `${minutes}m`;
-    const hours = Math.floor(minutes / 60);
-    if (hours < 24) return `${hours}h`;
-    return `${Math.floor(hours / 24)}d`;
   };
 
-  const hasImage = (post: Post) =>
-    post.media_url && post.media_type === "image";
+  // ===== Reaction handler =====
+  const handleReact = async (postId: string, reaction: ReactionType) => {
+    if (!recordReaction(postId, reaction)) return;
+
+    setReactionsGiven((prev) => ({
+      ...prev,
+      [postId]: [...(prev[postId] ?? []), reaction],
+    }));
+
+    const bump = (delta: number) =>
+      setPosts((prev) =>
+        prev.map((p) =>
+          p.id === postId
+            ? {
+                ...p,
+                reactions: {
+                  ...p.reactions,
+                  [reaction]: (p.reactions?.[reaction] ?? 0) + delta,
+                },
+              }
+            : p
+        )
+      );
+
+    bump(1);
+    const result = await reactToPost(postId, reaction);
+
+    if (result.ok) {
+      setPosts((prev) =>
+        prev.map((p) =>
+          p.id === postId ? { ...p, reactions: result.reactions } : p
+        )
+      );
+    } else {
+      // Already counted server-side (or failed): drop the optimistic bump
+      bump(-1);
+    }
+  };
 
   return (
     <div className="min-h-screen">
@@ -343,6 +431,11 @@ export default function Home() {
           alt="Un@vSalseo"
           className="h-16 w-16 rounded-full object-cover"
         />
+        <FeedSortSwitcher
+          mode={feedMode}
+          onChange={handleModeChange}
+          disabled={refreshing}
+        />
         <button
           onClick={handleRefresh}
           disabled={refreshing || refreshCooldown}
@@ -369,6 +462,9 @@ export default function Home() {
         </button>
       </header>
 
+      {/* ===== ANNOUNCEMENTS ===== */}
+      <AnnouncementBanner />
+
       {/* ===== PULL-TO-REFRESH SPINNER ===== */}
       <div
         className="flex justify-center items-center overflow-hidden"
@@ -390,6 +486,19 @@ export default function Home() {
 
       {/* ===== FEED ===== */}
       <main className="px-[2.5%] py-5 pb-28">
+        {/* Our own posts awaiting review (only this device sees them) */}
+        {pendingPosts.length > 0 && (
+          <div className="mb-4 space-y-4">
+            {pendingPosts.map((post) => (
+              <PendingPostCard
+                key={post.id}
+                post={post}
+                className="mx-auto w-[95%] md:w-[60%]"
+              />
+            ))}
+          </div>
+        )}
+
         {/* Initial loading state */}
         {loading && posts.length === 0 ? (
           <div className="space-y-4">
@@ -415,72 +524,29 @@ export default function Home() {
           </p>
         ) : (
           <>
-            {/* Masonry grid */}
-            <div
-              ref={gridRef}
-              className={`relative transition-opacity duration-300 ${
-                masonryReady ? "opacity-100" : "opacity-0"
-              }`}
-            >
-              {posts.map((post) => {
-                const left = likesLeft[post.id] ?? 5;
-                const maxedOut = left <= 0;
-                const withImage = hasImage(post);
-
-                return (
-                  <div
-                    key={post.id}
-                    className="mb-4 md:mb-0 mx-auto w-[95%] md:w-auto md:mx-0 rounded-2xl border border-white/15 bg-white/[0.07] backdrop-blur-xl overflow-hidden"
-                  >
-                    <div className="px-4 pt-4 pb-2">
-                      <p className="text-white text-[15px] leading-relaxed whitespace-pre-wrap wrap-break-word">
-                        {post.content}
-                      </p>
-                    </div>
+            {/* Live "N new posts" pill */}
+            <NewPostsBanner
+              count={incomingPosts.length}
+              onClick={showIncomingPosts}
+            />
 
-                    {withImage && (
-                      <div className="px-[5%] pb-2">
-                        <img
-                          src={post.media_url!}
-                          alt=""
-                          className="w-full rounded-xl object-contain"
-                        />
-                      </div>
-                    )}
-
-                    <div className="px-4 pb-3 pt-1 flex items-center justify-between text-[13px] text-white/50">
-                      <span>{timeAgo(post.created_at)}</span>
-                      <div className="flex items-center gap-4">
-                        <ShareButton
-                          postId={post.id}
-                          postContent={post.content}
-                          className="text-white hover:text-white/90"
-                        />
-                        <button
-                          onClick={() => handleLike(post.id, post.likes)}
-                          disabled={maxedOut}
-                          className={`rounded-full border-2 border-white bg-white/15 hover:bg-white/25 h-11 min-w-11 px-3 flex items-center justify-center gap-1.5 transition-colors ${
-                            maxedOut
-                              ? "text-white/20 cursor-not-allowed opacity-60"
-                              : "text-white/90 hover:text-red-400"
-                          }`}
-                          title={
-                            maxedOut
-                              ? "Like limit reached"
-                              : `${left} like${left !== 1 ? "s" : ""} left`
-                          }
-                        >
-                          <span className={`text-lg ${maxedOut ? "" : "text-red-400/90"}`}>
-                            &#9829;
-                          </span>
-                          <span className="text-[15px] font-medium">{post.likes}</span>
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
+            {/* Masonry grid */}
+            <VirtualMasonry
+              items={posts}
+              getKey={postKey}
+              estimateHeight={estimateCardHeight}
+              gap={MASONRY_GAP}
+              renderItem={(post) => (
+                <PostCard
+                  post={post}
+                  likesLeft={likesLeft[post.id] ?? LIKE_LIMIT_PER_POST}
+                  reactionsGiven={reactionsGiven[post.id] ?? []}
+                  onLike={handleLike}
+                  onReact={handleReact}
+                  className="mx-auto w-[95%] md:w-auto md:mx-0"
+                />
+              )}
+            />
 
             {/* Loading skeletons while fetching next page */}
             {loadingMore && (
@@ -535,7 +601,7 @@ export default function Home() {
 
       {/* Feedback Modal — once per session, after 5 min */}
       <FeedbackModal
-        open={showFeedback}
+        open={showFeedback && feedbackSurvey.enabled}
         onClose={() => {
           setShowFeedback(false);
           sessionStorage.setItem(FEEDBACK_SESSION_KEY, "true");
@@ -0,0 +1,28 @@
+"use client";
+
+import { AdminUser } from "@/lib/admin";
+import { signOut } from "@/lib/admin-client";
+
+interface AdminAccountProps {
+  admin: AdminUser | null;
+}
+
+/** Signed-in admin's email and role, with a sign-out link. */
+export default function AdminAccount({ admin }: AdminAccountProps) {
+  if (!admin) return null;
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-purple-300/70">
+      <span>
+        {admin.email} ·{" "}
+        <span className="uppercase tracking-wide">{admin.role}</span>
+      </span>
+      <button
+        onClick={signOut}
+        className="text-purple-300 font-medium hover:text-white transition-colors"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Announcement,
+  AnnouncementSeverity,
+  dismissAnnouncement,
+  fetchActiveAnnouncements,
+  getDismissedAnnouncements,
+} from "@/lib/announcements";
+
+const SEVERITY_STYLES: Record<AnnouncementSeverity, string> = {
+  info: "bg-sky-500/15 border-sky-300/20 text-sky-100",
+  warning: "bg-amber-500/15 border-amber-300/25 text-amber-100",
+  critical: "bg-red-500/20 border-red-300/30 text-red-100",
+};
+
+const SEVERITY_ICONS: Record<AnnouncementSeverity, string> = {
+  info: "📣",
+  warning: "⚠️",
+  critical: "🚨",
+};
+
+/**
+ * Live announcements under the feed header. Each one can be
+ * dismissed; that sticks on this device only.
+ */
+export default function AnnouncementBanner() {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [liveIds, setLiveIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchActiveAnnouncements().then(({ data, error }) => {
+      if (error) {
+        console.error("Error fetching announcements:", error);
+        return;
+      }
+      const dismissed = getDismissedAnnouncements();
+      setLiveIds(data.map((a) => a.id));
+      setAnnouncements(data.filter((a) => !dismissed.includes(a.id)));
+    });
+  }, []);
+
+  const dismiss = (id: string) => {
+    dismissAnnouncement(id, liveIds);
+    setAnnouncements((prev) => prev.filter((a) => a.id !== id));
+  };
+
+  if (announcements.length === 0) return null;
+
+  return (
+    <div className="mx-auto w-[95%] md:w-[60%] pt-3 space-y-2">
+      {announcements.map((a) => (
+        <div
+          key={a.id}
+          role={a.severity === "critical" ? "alert" : "status"}
+          className={`flex items-start gap-3 rounded-2xl border backdrop-blur-xl px-4 py-3 ${SEVERITY_STYLES[a.severity]}`}
+        >
+          <span className="text-lg leading-none pt-0.5">
+            {SEVERITY_ICONS[a.severity]}
+          </span>
+          <div className="min-w-0 flex-1">
+            <p className="text-[14px] font-semibold">{a.title}</p>
+            {a.body && (
+              <p className="mt-0.5 text-[13px] opacity-80 whitespace-pre-wrap wrap-break-word">
+                {a.body}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => dismiss(a.id)}
+            aria-label="Dismiss announcement"
+            className="text-sm opacity-60 hover:opacity-100 transition-opacity"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
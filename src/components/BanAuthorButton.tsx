@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { api } from "@/lib/api";
+import {
+  BAN_DURATIONS,
+  BAN_KINDS,
+  Ban,
+  BanKind,
+  MAX_BAN_REASON_CHARS,
+} from "@/lib/bans";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BanAuthorButtonProps {
+  postId: string;
+  disabled?: boolean;
+  onBanned?: (ban: Ban) => void;
+}
+
+/**
+ * "Ban author" for admin post views: bans or shadowbans the device
+ * that wrote the post, optionally with its network too.
+ */
+export default function BanAuthorButton({
+  postId,
+  disabled = false,
+  onBanned,
+}: BanAuthorButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<BanKind>("ban");
+  const [reason, setReason] = useState("");
+  const [durationIndex, setDurationIndex] = useState(1); // 7 days
+  const [includeIp, setIncludeIp] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setKind("ban");
+    setReason("");
+    setDurationIndex(1);
+    setIncludeIp(false);
+  };
+
+  const handleSubmit = async () => {
+    const { days } = BAN_DURATIONS[durationIndex];
+    setSubmitting(true);
+    const { data, error } = await api.post<Ban>(
+      `/api/admin/posts/${postId}/ban`,
+      {
+        kind,
+        reason,
+        expires_at: days ? new Date(Date.now() + days * DAY_MS) : null,
+        include_ip: includeIp,
+      }
+    );
+    setSubmitting(false);
+
+    if (error) {
+      console.error("Error banning author:", error);
+      alert(`Failed to ban author: ${error.message}`);
+      return;
+    }
+    onBanned?.(data);
+    close();
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="rounded-lg px-3 py-1.5 text-[13px] font-medium transition-colors disabled:opacity-40 bg-red-500/10 text-red-200/80 hover:bg-red-500/20"
+      >
+        Ban author
+      </button>
+
+      {open &&
+        createPortal(
+          <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div className="absolute inset-0 bg-black/60" onClick={close} />
+
+            {/* Modal */}
+            <div className="relative bg-slate-900 border border-white/10 rounded-2xl shadow-xl p-6 mx-4 w-full max-w-md space-y-4">
+              <div>
+                <h2 className="text-lg font-bold text-white">
+                  Ban this post&apos;s author
+                </h2>
+                <p className="text-sm text-purple-200/60">
+                  Applies to the device that wrote it. The reason and expiry are
+                  kept in the audit log.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                {BAN_KINDS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setKind(value)}
+                    className={`w-full text-left px-3 py-2 rounded-xl border text-sm transition-colors ${
+                      kind === value
+                        ? "border-purple-300/50 bg-purple-500/20 text-white"
+                        : "border-white/10 text-purple-100/70 hover:bg-white/5"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <textarea
+                value={reason}
+                onChange={(e) =>
+                  setReason(e.target.value.slice(0, MAX_BAN_REASON_CHARS))
+                }
+                placeholder="Reason (shown to a banned device)"
+                rows={2}
+                className="w-full resize-none rounded-lg bg-white/5 border border-white/10 px-3 py-2 text-[13px] text-white placeholder-purple-200/30 outline-none"
+              />
+
+              <div className="flex items-center gap-3">
+                <select
+                  value={durationIndex}
+                  onChange={(e) => setDurationIndex(Number(e.target.value))}
+                  className="rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-[13px] text-white outline-none scheme-dark"
+                >
+                  {BAN_DURATIONS.map(({ label }, i) => (
+                    <option key={label} value={i}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-[13px] text-purple-200/70">
+                  <input
+                    type="checkbox"
+                    checked={includeIp}
+                    onChange={(e) => setIncludeIp(e.target.checked)}
+                    className="accent-purple-400"
+                  />
+                  Also ban its network
+                </label>
+              </div>
+              {includeIp && (
+                <p className="text-[12px] text-amber-300/80">
+                  Everyone on the same network (e.g. campus Wi-Fi) will be
+                  affected.
+                </p>
+              )}
+
+              <div className="flex items-center justify-end gap-4">
+                <button
+                  onClick={close}
+                  className="text-sm text-purple-300/60 hover:text-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={!reason.trim() || submitting}
+                  className="rounded-xl bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  {submitting
+                    ? "Saving..."
+                    : kind === "ban"
+                      ? "Ban"
+                      : "Shadowban"}
+                </button>
+              </div>
+            </div>
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { Comment } from "@/lib/types";
+import { addComment, anonHandle, fetchComments } from "@/lib/comments";
+import { canComment, recordComment } from "@/lib/rate-limit";
+import { MAX_CONTENT_CHARS } from "@/lib/limits";
+import { timeAgo } from "@/lib/format";
+import { trackEvent } from "@/lib/analytics";
+
+const COMMENTS_PAGE_SIZE = 10;
+
+interface CommentThreadProps {
+  postId: string;
+  commentCount: number;
+}
+
+export default function CommentThread({
+  postId,
+  commentCount,
+}: CommentThreadProps) {
+  const [open, setOpen] = useState(false);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [waitSeconds, setWaitSeconds] = useState(0);
+  const [added, setAdded] = useState(0); // comments posted from this card
+
+  const loadPage = async (from: string | null) => {
+    setLoading(true);
+    const { data, error } = await fetchComments(postId, from, COMMENTS_PAGE_SIZE);
+    if (error || !data) {
+      console.error("Error fetching comments:", error);
+    } else {
+      setComments((prev) => {
+        const existingIds = new Set(prev.map((c) => c.id));
+        return [...prev, ...data.items.filter((c) => !existingIds.has(c.id))];
+      });
+      setCursor(data.cursor);
+      setHasMore(data.hasMore);
+      setLoaded(true);
+    }
+    setLoading(false);
+  };
+
+  const toggle = () => {
+    if (!open && !loaded) loadPage(null);
+    setOpen(!open);
+  };
+
+  const handleSend = async () => {
+    const trimmed = draft.trim();
+    if (!trimmed) return;
+
+    const status = canComment();
+    if (!status.allowed) {
+      setWaitSeconds(status.waitSeconds);
+      return;
+    }
+
+    setSending(true);
+    const { data: comment, error } = await addComment(postId, trimmed);
+    setSending(false);
+
+    if (error) {
+      if (error.code === "rate_limited") {
+        setWaitSeconds(error.retryAfter);
+        return;
+      }
+      if (error.code === "banned" || error.code === "content_rejected") {
+        alert(error.message);
+        return;
+      }
+      console.error("Error adding comment:", error);
+      alert("Failed to comment. Please try again.");
+      return;
+    }
+
+    recordComment();
+    trackEvent("comment_created", { postId });
+    setDraft("");
+    setWaitSeconds(0);
+    // Held comments aren't counted until a moderator approves them
+    if (comment.status === "published") setAdded((n) => n + 1);
+    // Only append when the thread is fully loaded; otherwise the
+    // new comment shows up when paging reaches the end.
+    if (!hasMore) setComments((prev) => [...prev, comment]);
+  };
+
+  const total = commentCount + added;
+
+  return (
+    <div className="border-t border-white/10">
+      <button
+        onClick={toggle}
+        className="w-full px-4 py-2.5 text-left text-[13px] text-white/50 hover:text-white/80 transition-colors"
+      >
+        {open
+          ? "Hide comments"
+          : total > 0
+            ? `${total} comment${total !== 1 ? "s" : ""}`
+            : "Comment"}
+      </button>
+
+      {open && (
+        <div className="px-4 pb-3 space-y-3">
+          {comments.map((c) => (
+            <div key={c.id} className="text-[14px]">
+              <div className="flex items-center gap-2 text-[12px] text-white/40">
+                <span className="font-semibold text-white/60">
+                  {anonHandle(c)}
+                </span>
+                <span>{timeAgo(c.created_at)}</span>
+                {c.status === "pending" && (
+                  <span className="text-amber-300/70">
+                    Awaiting review · only you can see this
+                  </span>
+                )}
+              </div>
+              <p className="text-white/90 whitespace-pre-wrap wrap-break-word">
+                {c.content}
+              </p>
+            </div>
+          ))}
+
+          {loading && <p className="text-[13px] text-white/30">Loading…</p>}
+
+          {!loading && hasMore && (
+            <button
+              onClick={() => loadPage(cursor)}
+              className="text-[13px] text-white/60 hover:text-white transition-colors"
+            >
+              Load more comments
+            </button>
+          )}
+
+          {loaded && comments.length === 0 && !loading && (
+            <p className="text-[13px] text-white/30">No comments yet.</p>
+          )}
+
+          {/* Composer */}
+          {waitSeconds > 0 && (
+            <p className="text-[12px] text-red-300">
+              Comment limit reached. Try again in {waitSeconds}s.
+            </p>
+          )}
+          <div className="flex items-end gap-2">
+            <textarea
+              value={draft}
+              onChange={(e) => {
+                if (e.target.value.length <= MAX_CONTENT_CHARS) {
+                  setDraft(e.target.value);
+                }
+              }}
+              placeholder="Add an anonymous comment..."
+              rows={1}
+              className="flex-1 resize-none rounded-xl bg-white/10 px-3 py-2 text-[14px] text-white placeholder-white/30 outline-none"
+            />
+            <button
+              onClick={handleSend}
+              disabled={sending || draft.trim().length === 0}
+              className="rounded-xl bg-white/15 border border-white/20 px-3 py-2 text-[13px] font-semibold text-white hover:bg-white/25 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            >
+              {sending ? "..." : "Send"}
+            </button>
+          </div>
+          {draft.length > MAX_CONTENT_CHARS - 30 && (
+            <p className="text-right text-[12px] text-red-400">
+              {MAX_CONTENT_CHARS - draft.length} characters left
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { FeatureFlag, FlagKey } from "@/lib/flags";
+
+const FLAG_LABELS: Record<FlagKey, string> = {
+  posting: "Posting",
+  image_uploads: "Image uploads",
+  video_uploads: "Video uploads",
+  feedback_survey: "Feedback survey",
+  hold_for_review: "Hold posts for review",
+};
+
+interface FeatureFlagsPanelProps {
+  readOnly?: boolean; // only owners may change flags
+}
+
+/**
+ * Admin controls for the feature_flags table: on/off, rollout
+ * percentage and the message users see while a feature is off.
+ */
+export default function FeatureFlagsPanel({
+  readOnly = false,
+}: FeatureFlagsPanelProps) {
+  const [flags, setFlags] = useState<FeatureFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    api.get<FeatureFlag[]>("/api/admin/flags").then(({ data, error }) => {
+      if (error) console.error("Error fetching feature flags:", error);
+      else setFlags(data);
+      setLoading(false);
+    });
+  }, []);
+
+  const saveFlag = async (key: FlagKey, changes: Partial<FeatureFlag>) => {
+    const { data, error } = await api.patch<FeatureFlag>(
+      `/api/admin/flags/${key}`,
+      changes
+    );
+    if (error) {
+      console.error("Error updating feature flag:", error);
+      alert(`Failed to update flag: ${error.message}`);
+      return;
+    }
+    setFlags((prev) => prev.map((f) => (f.key === key ? data : f)));
+  };
+
+  if (loading) {
+    return <p className="text-sm text-purple-300/50">Loading flags...</p>;
+  }
+  if (flags.length === 0) {
+    return <p className="text-sm text-purple-300/50">No flags configured.</p>;
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      {flags.map((flag) => (
+        <FlagCard
+          key={`${flag.key}:${flag.updated_at}`}
+          flag={flag}
+          readOnly={readOnly}
+          onSave={(changes) => saveFlag(flag.key, changes)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface FlagCardProps {
+  flag: FeatureFlag;
+  readOnly: boolean;
+  onSave: (changes: Partial<FeatureFlag>) => Promise<void>;
+}
+
+function FlagCard({ flag, readOnly, onSave }: FlagCardProps) {
+  const [rollout, setRollout] = useState(flag.rollout_percent);
+  const [message, setMessage] = useState(flag.message ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const dirty =
+    rollout !== flag.rollout_percent || message !== (flag.message ?? "");
+
+  const save = async (changes: Partial<FeatureFlag>) => {
+    setSaving(true);
+    await onSave(changes);
+    setSaving(false);
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-lg border border-white/10 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-white">
+          {FLAG_LABELS[flag.key] ?? flag.key}
+        </p>
+        <button
+          onClick={() => save({ enabled: !flag.enabled })}
+          disabled={saving || readOnly}
+          className={`rounded-full px-3 py-1 text-[11px] font-semibold transition-colors disabled:opacity-50 ${
+            flag.enabled
+              ? "bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30"
+              : "bg-white/10 text-purple-200/60 hover:bg-white/20"
+          }`}
+        >
+          {flag.enabled ? "ON" : "OFF"}
+        </button>
+      </div>
+
+      <label className="block">
+        <span className="text-[11px] font-medium text-purple-200/50 uppercase tracking-wide">
+          Rollout: {rollout}%
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={rollout}
+          disabled={readOnly}
+          onChange={(e) => setRollout(Number(e.target.value))}
+          className="mt-1 w-full accent-purple-400"
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-[11px] font-medium text-purple-200/50 uppercase tracking-wide">
+          Message while off
+        </span>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value.slice(0, 280))}
+          rows={2}
+          disabled={readOnly}
+          placeholder="Shown to users when this feature is off"
+          className="mt-1 w-full resize-none rounded-lg bg-white/5 border border-white/10 px-2 py-1.5 text-[13px] text-white placeholder-purple-200/30 outline-none"
+        />
+      </label>
+
+      <button
+        onClick={() => save({ rollout_percent: rollout, message })}
+        disabled={!dirty || saving || readOnly}
+        className="w-full rounded-lg bg-purple-500/20 py-1.5 text-[13px] font-medium text-purple-200 hover:bg-purple-500/30 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+      >
+        {saving ? "Saving..." : "Save"}
+      </button>
+    </div>
+  );
+}
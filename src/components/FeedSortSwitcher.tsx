@@ -0,0 +1,67 @@
+"use client";
+
+import { FeedMode, FeedSort, TopPeriod } from "@/lib/feed";
+
+interface FeedSortSwitcherProps {
+  mode: FeedMode;
+  onChange: (mode: FeedMode) => void;
+  disabled?: boolean;
+}
+
+const sorts: { value: FeedSort; label: string }[] = [
+  { value: "hot", label: "Hot" },
+  { value: "top", label: "Top" },
+  { value: "new", label: "New" },
+];
+
+const periods: { value: TopPeriod; label: string }[] = [
+  { value: "day", label: "Today" },
+  { value: "week", label: "This week" },
+  { value: "all", label: "All time" },
+];
+
+export default function FeedSortSwitcher({
+  mode,
+  onChange,
+  disabled = false,
+}: FeedSortSwitcherProps) {
+  return (
+    <div className="flex flex-col items-center gap-1.5">
+      <div className="flex rounded-full border border-white/15 bg-white/5 p-0.5">
+        {sorts.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => onChange({ ...mode, sort: value })}
+            disabled={disabled}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+              mode.sort === value
+                ? "bg-white/20 text-white"
+                : "text-white/50 hover:text-white"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode.sort === "top" && (
+        <div className="flex gap-2">
+          {periods.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onChange({ ...mode, period: value })}
+              disabled={disabled}
+              className={`text-xs transition-colors disabled:cursor-not-allowed ${
+                mode.period === value
+                  ? "text-white font-semibold"
+                  : "text-white/40 hover:text-white/70"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { supabase } from "@/lib/supabase";
+import { api } from "@/lib/api";
 import { trackEvent } from "@/lib/analytics";
 
 type Rating = "happy" | "normal" | "sad";
@@ -26,7 +26,7 @@ export default function FeedbackModal({ open, onClose }: FeedbackModalProps) {
     setSubmitting(true);
 
     // 1. Save to feedback table (for NPS calculations)
-    const { error } = await supabase.from("feedback").insert({ rating });
+    const { error } = await api.post("/api/feedback", { rating });
     if (error) {
       console.error("Error saving feedback:", error);
     }
@@ -0,0 +1,77 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { PostMedia } from "@/lib/types";
+import PostImage from "@/components/PostImage";
+
+interface ImageCarouselProps {
+  images: PostMedia[];
+  className?: string;
+}
+
+/**
+ * A post's images in a swipeable, scroll-snapping row with dot
+ * indicators. The box takes the first image's shape (the one the
+ * feed reserves space for) and later images fit inside it. A
+ * single image is shown on its own.
+ */
+export default function ImageCarousel({
+  images,
+  className = "",
+}: ImageCarouselProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+
+  if (images.length === 1) {
+    return <PostImage image={images[0]} className={className} />;
+  }
+
+  const [cover] = images;
+  const aspectRatio =
+    cover.width && cover.height ? `${cover.width} / ${cover.height}` : "4 / 3";
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track) return;
+    setIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const goTo = (i: number) => {
+    const track = trackRef.current;
+    track?.scrollTo({ left: i * track.clientWidth, behavior: "smooth" });
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div
+        ref={trackRef}
+        onScroll={handleScroll}
+        className="flex overflow-x-auto snap-x snap-mandatory rounded-xl [scrollbar-width:none] [&::-webkit-scrollbar]:hidden"
+        style={{ aspectRatio }}
+      >
+        {images.map((image) => (
+          <div
+            key={image.position}
+            className="w-full h-full shrink-0 snap-center"
+          >
+            <PostImage image={image} fill />
+          </div>
+        ))}
+      </div>
+
+      <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-1.5 rounded-full bg-black/40 px-2 py-1">
+        {images.map((image, i) => (
+          <button
+            key={image.position}
+            onClick={() => goTo(i)}
+            aria-label={`Image ${i + 1} of ${images.length}`}
+            aria-current={i === index}
+            className={`w-1.5 h-1.5 rounded-full transition-colors ${
+              i === index ? "bg-white" : "bg-white/40"
+            }`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+interface NewPostsBannerProps {
+  count: number;
+  onClick: () => void;
+}
+
+export default function NewPostsBanner({ count, onClick }: NewPostsBannerProps) {
+  if (count <= 0) return null;
+
+  return (
+    <div className="sticky top-24 z-20 flex justify-center mb-4 pointer-events-none">
+      <button
+        onClick={onClick}
+        className="pointer-events-auto rounded-full bg-white text-black text-sm font-semibold px-4 py-2 shadow-lg hover:bg-gray-100 transition-colors"
+      >
+        {count} new post{count !== 1 ? "s" : ""} &mdash; tap to show
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { hasImage, hasVideo, postImages, timeAgo } from "@/lib/format";
+import { Post } from "@/lib/types";
+import ImageCarousel from "@/components/ImageCarousel";
+import PostVideo from "@/components/PostVideo";
+
+interface PendingPostCardProps {
+  post: Post;
+  className?: string;
+}
+
+/**
+ * The author's own post while it waits for a moderator. Only ever
+ * rendered on the device that wrote it; no likes, reactions or
+ * comments until it's published.
+ */
+export default function PendingPostCard({
+  post,
+  className = "",
+}: PendingPostCardProps) {
+  return (
+    <div
+      className={`rounded-2xl border border-dashed border-white/25 bg-white/[0.04] backdrop-blur-xl overflow-hidden ${className}`}
+    >
+      <div className="px-4 pt-4 pb-2 opacity-70">
+        <p className="text-white text-[15px] leading-relaxed whitespace-pre-wrap wrap-break-word">
+          {post.content}
+        </p>
+      </div>
+
+      {hasImage(post) && (
+        <div className="px-[5%] pb-2 opacity-70">
+          <ImageCarousel images={postImages(post)} />
+        </div>
+      )}
+      {hasVideo(post) && (
+        <div className="px-[5%] pb-2 opacity-70">
+          <PostVideo post={post} />
+        </div>
+      )}
+
+      <div className="px-4 pb-3 pt-1 flex items-center justify-between text-[13px] text-white/50">
+        <span>{timeAgo(post.created_at)}</span>
+        <span
+          className="rounded-full bg-amber-400/15 px-2.5 py-1 text-[12px] font-medium text-amber-200"
+          title="Only you can see this post until a moderator approves it"
+        >
+          ⏳ Awaiting review
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { Post, ReactionType } from "@/lib/types";
+import { hasImage, hasVideo, postImages, timeAgo } from "@/lib/format";
+import ShareButton from "@/components/ShareButton";
+import ReportButton from "@/components/ReportButton";
+import CommentThread from "@/components/CommentThread";
+import ReactionBar from "@/components/ReactionBar";
+import ImageCarousel from "@/components/ImageCarousel";
+import PostVideo from "@/components/PostVideo";
+
+interface PostCardProps {
+  post: Post;
+  likesLeft: number;
+  reactionsGiven: ReactionType[];
+  onLike: (postId: string) => void;
+  onReact: (postId: string, reaction: ReactionType) => void;
+  className?: string;
+}
+
+export default function PostCard({
+  post,
+  likesLeft,
+  reactionsGiven,
+  onLike,
+  onReact,
+  className = "",
+}: PostCardProps) {
+  const maxedOut = likesLeft <= 0;
+
+  return (
+    <div
+      className={`rounded-2xl border backdrop-blur-xl overflow-hidden ${
+        post.featured
+          ? "border-amber-300/50 bg-amber-200/[0.09] shadow-[0_0_24px_rgba(251,191,36,0.15)]"
+          : "border-white/15 bg-white/[0.07]"
+      } ${className}`}
+    >
+      {(post.pinned_at || post.featured) && (
+        <div className="px-4 pt-3 -mb-2 flex gap-2 text-[11px] font-semibold uppercase tracking-wide">
+          {post.pinned_at && (
+            <span className="rounded-full bg-white/15 px-2 py-0.5 text-white/80">
+              📌 Pinned
+            </span>
+          )}
+          {post.featured && (
+            <span className="rounded-full bg-amber-300/20 px-2 py-0.5 text-amber-200">
+              ⭐ Featured
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="px-4 pt-4 pb-2">
+        <p className="text-white text-[15px] leading-relaxed whitespace-pre-wrap wrap-break-word">
+          {post.content}
+        </p>
+      </div>
+
+      {hasImage(post) && (
+        <div className="px-[5%] pb-2">
+          <ImageCarousel images={postImages(post)} />
+        </div>
+      )}
+      {hasVideo(post) && (
+        <div className="px-[5%] pb-2">
+          <PostVideo post={post} />
+        </div>
+      )}
+
+      <ReactionBar
+        reactions={post.reactions}
+        given={reactionsGiven}
+        onReact={(reaction) => onReact(post.id, reaction)}
+      />
+
+      <div className="px-4 pb-3 pt-1 flex items-center justify-between text-[13px] text-white/50">
+        <span>
+          {timeAgo(post.created_at)} ·{" "}
+          <ReportButton postId={post.id} />
+        </span>
+        <div className="flex items-center gap-4">
+          <ShareButton
+            postId={post.id}
+            postContent={post.content}
+            className="text-white hover:text-white/90"
+          />
+          <button
+            onClick={() => onLike(post.id)}
+            disabled={maxedOut}
+            className={`rounded-full border-2 border-white bg-white/15 hover:bg-white/25 h-11 min-w-11 px-3 flex items-center justify-center gap-1.5 transition-colors ${
+              maxedOut
+                ? "text-white/20 cursor-not-allowed opacity-60"
+                : "text-white/90 hover:text-red-400"
+            }`}
+            title={
+              maxedOut
+                ? "Like limit reached"
+                : `${likesLeft} like${likesLeft !== 1 ? "s" : ""} left`
+            }
+          >
+            <span className={`text-lg ${maxedOut ? "" : "text-red-400/90"}`}>
+              &#9829;
+            </span>
+            <span className="text-[15px] font-medium">{post.likes}</span>
+          </button>
+        </div>
+      </div>
+
+      <CommentThread postId={post.id} commentCount={post.comment_count} />
+    </div>
+  );
+}
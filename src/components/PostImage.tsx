@@ -0,0 +1,48 @@
+"use client";
+
+import { PostMedia } from "@/lib/types";
+
+interface PostImageProps {
+  image: PostMedia;
+  fill?: boolean; // fill the parent's box instead of sizing to the image
+  className?: string;
+}
+
+/**
+ * One of a post's images. When its size is known the box is
+ * reserved up front (no reflow when it loads) and the blurred
+ * placeholder shows until the real image paints over it.
+ */
+export default function PostImage({
+  image,
+  fill = false,
+  className = "",
+}: PostImageProps) {
+  const sized = !fill && !!image.width && !!image.height;
+
+  return (
+    <div
+      className={`relative overflow-hidden rounded-xl ${fill ? "h-full" : ""} ${className}`}
+      style={
+        sized ? { aspectRatio: `${image.width} / ${image.height}` } : undefined
+      }
+    >
+      {image.placeholder && (
+        <div
+          aria-hidden
+          className="absolute inset-0 scale-110 bg-cover bg-center blur-lg"
+          style={{ backgroundImage: `url("${image.placeholder}")` }}
+        />
+      )}
+      <img
+        src={image.url}
+        alt=""
+        loading="lazy"
+        decoding="async"
+        width={image.width ?? undefined}
+        height={image.height ?? undefined}
+        className={`relative w-full ${sized || fill ? "h-full" : ""} object-contain`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Post } from "@/lib/types";
+import { trackEvent } from "@/lib/analytics";
+
+const PLAY_THRESHOLD = 0.6; // share of the clip on screen
+
+// Cards remount as the feed virtualizes; count each post once
+const playedThisSession = new Set<string>();
+
+interface PostVideoProps {
+  post: Post;
+  className?: string;
+}
+
+/**
+ * A post's video: muted and looping, playing only while mostly on
+ * screen. Nothing loads until it first plays; the poster and
+ * blurred placeholder hold its space until then. Tap to pause,
+ * the corner button for sound.
+ */
+export default function PostVideo({ post, className = "" }: PostVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [muted, setMuted] = useState(true);
+  const sized = !!post.media_width && !!post.media_height;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const autoplay = !window.matchMedia("(prefers-reduced-motion: reduce)")
+      .matches;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting) video.pause();
+        // Rejected when the browser blocks autoplay; the poster stays
+        else if (autoplay) video.play().catch(() => {});
+      },
+      { threshold: PLAY_THRESHOLD }
+    );
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, []);
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(() => {});
+    else video.pause();
+  };
+
+  const toggleMuted = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.muted = !video.muted;
+    setMuted(video.muted);
+  };
+
+  const handlePlaying = () => {
+    if (playedThisSession.has(post.id)) return;
+    playedThisSession.add(post.id);
+    trackEvent("video_play", { postId: post.id });
+  };
+
+  return (
+    <div
+      className={`relative overflow-hidden rounded-xl bg-black/30 ${className}`}
+      style={
+        sized
+          ? { aspectRatio: `${post.media_width} / ${post.media_height}` }
+          : undefined
+      }
+    >
+      {post.media_placeholder && (
+        <div
+          aria-hidden
+          className="absolute inset-0 scale-110 bg-cover bg-center blur-lg"
+          style={{ backgroundImage: `url("${post.media_placeholder}")` }}
+        />
+      )}
+      <video
+        ref={videoRef}
+        src={post.media_url!}
+        poster={post.media_poster_url ?? undefined}
+        preload="none"
+        muted
+        loop
+        playsInline
+        onClick={togglePlay}
+        onPlaying={handlePlaying}
+        width={post.media_width ?? undefined}
+        height={post.media_height ?? undefined}
+        className={`relative w-full ${sized ? "h-full" : ""} object-contain cursor-pointer`}
+      />
+      <button
+        onClick={toggleMuted}
+        aria-label={muted ? "Unmute" : "Mute"}
+        className="absolute bottom-2 right-2 w-8 h-8 rounded-full bg-black/60 text-sm flex items-center justify-center hover:bg-black/80"
+      >
+        {muted ? "🔇" : "🔊"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Post, ReactionType } from "@/lib/types";
+import { REACTIONS, topReactions } from "@/lib/reactions";
+
+const TOP_REACTIONS_SHOWN = 3;
+
+interface ReactionBarProps {
+  reactions: Post["reactions"];
+  given: ReactionType[]; // types this device already used
+  onReact: (reaction: ReactionType) => void;
+}
+
+export default function ReactionBar({
+  reactions,
+  given,
+  onReact,
+}: ReactionBarProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const top = topReactions(reactions, TOP_REACTIONS_SHOWN);
+
+  const chipClass = (mine: boolean) =>
+    `rounded-full border px-2 h-7 flex items-center gap-1 text-[13px] transition-colors ${
+      mine
+        ? "border-white/50 bg-white/20 text-white cursor-default"
+        : "border-white/15 bg-white/5 text-white/70 hover:bg-white/15"
+    }`;
+
+  return (
+    <div className="px-4 pb-2 flex flex-wrap items-center gap-1.5">
+      {top.map(({ type, emoji, count }) => {
+        const mine = given.includes(type);
+        return (
+          <button
+            key={type}
+            onClick={() => !mine && onReact(type)}
+            className={chipClass(mine)}
+          >
+            <span>{emoji}</span>
+            <span className="font-medium">{count}</span>
+          </button>
+        );
+      })}
+
+      {pickerOpen ? (
+        <div className="flex items-center gap-1 rounded-full border border-white/15 bg-maroon-950/80 px-1.5 h-8">
+          {REACTIONS.map(({ type, emoji, label }) => {
+            const mine = given.includes(type);
+            return (
+              <button
+                key={type}
+                onClick={() => {
+                  if (!mine) onReact(type);
+                  setPickerOpen(false);
+                }}
+                disabled={mine}
+                title={mine ? `${label} (already reacted)` : label}
+                className="text-lg px-0.5 hover:scale-125 transition-transform disabled:opacity-30 disabled:hover:scale-100"
+              >
+                {emoji}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <button
+          onClick={() => setPickerOpen(true)}
+          className={chipClass(false)}
+          title="Add reaction"
+        >
+          <span>☺</span>
+          <span className="font-medium">+</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { REPORT_REASONS, reportPost } from "@/lib/reports";
+import { ReportReason } from "@/lib/types";
+
+interface ReportButtonProps {
+  postId: string;
+  className?: string;
+}
+
+export default function ReportButton({
+  postId,
+  className = "",
+}: ReportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [reported, setReported] = useState(false);
+
+  const close = () => {
+    setOpen(false);
+    setReason(null);
+    setDetails("");
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+    setSubmitting(true);
+    const result = await reportPost(postId, reason, details);
+    setSubmitting(false);
+
+    if (!result.ok && result.reason === "error") {
+      alert("Failed to send report. Please try again.");
+      return;
+    }
+    if (!result.ok && result.reason === "banned") {
+      alert(result.message);
+      return;
+    }
+    if (!result.ok && result.reason === "rate_limited") {
+      alert("You've sent a lot of reports. Please try again later.");
+      return;
+    }
+    // Already reported counts as done from the user's point of view
+    setReported(true);
+    close();
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={reported}
+        className={`hover:text-white/80 disabled:cursor-default disabled:hover:text-inherit transition-colors ${className}`}
+        title={reported ? "Thanks, we'll review this post" : "Report this post"}
+      >
+        {reported ? "Reported" : "Report"}
+      </button>
+
+      {/* Portalled: the card's backdrop-blur would trap a fixed overlay */}
+      {open &&
+        createPortal(
+          <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div className="absolute inset-0 bg-black/40" onClick={close} />
+
+            {/* Modal */}
+            <div className="relative bg-white rounded-2xl shadow-xl p-6 mx-4 w-full max-w-sm">
+              <h2 className="text-lg font-bold text-gray-900 mb-1">
+                Report this post
+              </h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Reports are anonymous. Posts with several reports are hidden
+                until a moderator reviews them.
+              </p>
+
+              <div className="space-y-2">
+                {REPORT_REASONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setReason(value)}
+                    className={`w-full text-left px-3 py-2 rounded-xl border text-sm transition-colors ${
+                      reason === value
+                        ? "border-gray-900 bg-gray-900 text-white"
+                        : "border-gray-200 text-gray-700 hover:bg-gray-100"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value.slice(0, 255))}
+                placeholder="Anything else we should know? (optional)"
+                rows={2}
+                className="mt-3 w-full resize-none rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 placeholder-gray-400 outline-none"
+              />
+
+              <div className="mt-4 flex items-center justify-end gap-4">
+                <button
+                  onClick={close}
+                  className="text-sm text-gray-400 hover:text-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={!reason || submitting}
+                  className="rounded-xl bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  {submitting ? "Sending..." : "Report"}
+                </button>
+              </div>
+            </div>
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { trackEvent } from "@/lib/analytics";
+
+interface SaveCardButtonProps {
+  postId: string;
+  className?: string;
+}
+
+/**
+ * Saves the story-sized share card. Uses the native share sheet
+ * where files can be shared (mobile → "Add to story"), otherwise
+ * downloads the PNG.
+ */
+export default function SaveCardButton({
+  postId,
+  className = "",
+}: SaveCardButtonProps) {
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/p/${postId}/card?format=story`);
+      if (!res.ok) throw new Error(`Card request failed: ${res.status}`);
+      const blob = await res.blob();
+      const file = new File([blob], `salseo-${postId.slice(0, 8)}.png`, {
+        type: "image/png",
+      });
+
+      if (navigator.canShare?.({ files: [file] })) {
+        try {
+          await navigator.share({ files: [file] });
+        } catch (err) {
+          if ((err as Error).name === "AbortError") return;
+          throw err;
+        }
+      } else {
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = file.name;
+        a.click();
+        URL.revokeObjectURL(url);
+      }
+
+      trackEvent("share_post", { postId, metadata: { format: "image" } });
+    } catch (err) {
+      console.error("Saving share card failed:", err);
+      alert("Could not create the image. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleSave}
+      disabled={saving}
+      className={`mt-4 w-full border border-white/20 text-white/80 py-3 rounded-2xl font-medium text-base hover:bg-white/10 disabled:opacity-50 transition-colors ${className}`}
+    >
+      {saving ? "Creating image..." : "Save as image"}
+    </button>
+  );
+}
@@ -14,12 +14,12 @@ export default function ShareButton({
   className = "",
 }: ShareButtonProps) {
   const handleShare = async () => {
-    const currentUrl = window.location.origin;
-    const shareText = `"${postContent}" - Join the conversation at ${currentUrl}`;
+    const postUrl = `${window.location.origin}/p/${postId}`;
+    const shareText = `"${postContent}"`;
 
     if (navigator.share) {
       try {
-        await navigator.share({ text: shareText });
+        await navigator.share({ text: shareText, url: postUrl });
       } catch (err) {
         if ((err as Error).name === "AbortError") return;
         console.error("Share failed:", err);
@@ -27,7 +27,7 @@ export default function ShareButton({
       }
     } else {
       try {
-        await navigator.clipboard.writeText(shareText);
+        await navigator.clipboard.writeText(`${shareText} - ${postUrl}`);
         alert("Copied to clipboard!");
       } catch {
         console.error("Clipboard write failed");
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { Post, ReactionType } from "@/lib/types";
+import { likePost } from "@/lib/likes";
+import { reactToPost } from "@/lib/reactions";
+import {
+  LIKE_LIMIT_PER_POST,
+  canLikePost,
+  recordLike,
+  exhaustLikes,
+  remainingLikes,
+  getReactionsGiven,
+  recordReaction,
+} from "@/lib/rate-limit";
+import PostCard from "@/components/PostCard";
+
+interface SinglePostProps {
+  post: Post;
+}
+
+const noopSubscribe = () => () => {};
+
+/**
+ * Interactive wrapper around PostCard for pages that show one
+ * server-rendered post (e.g. /p/[id]).
+ */
+export default function SinglePost({ post: initialPost }: SinglePostProps) {
+  const [post, setPost] = useState(initialPost);
+
+  // localStorage is only readable on the client; re-read on every
+  // render, which each like/reaction triggers through setPost
+  const likesLeft = useSyncExternalStore(
+    noopSubscribe,
+    () => remainingLikes(post.id),
+    () => LIKE_LIMIT_PER_POST
+  );
+  const givenKey = useSyncExternalStore(
+    noopSubscribe,
+    () => getReactionsGiven(post.id).join(","),
+    () => ""
+  );
+  const reactionsGiven = (givenKey ? givenKey.split(",") : []) as ReactionType[];
+
+  const handleLike = async (postId: string) => {
+    if (!canLikePost(postId) || !recordLike(postId)) return;
+    setPost((p) => ({ ...p, likes: p.likes + 1 }));
+
+    const result = await likePost(postId);
+    if (result.ok) {
+      setPost((p) => ({ ...p, likes: result.likes }));
+      return;
+    }
+    if (result.reason === "limit_reached") {
+      exhaustLikes(postId);
+    }
+    if (result.reason === "banned" || result.reason === "rate_limited") {
+      alert(result.message);
+    }
+    setPost((p) => ({ ...p, likes: p.likes - 1 }));
+  };
+
+  const handleReact = async (postId: string, reaction: ReactionType) => {
+    if (!recordReaction(postId, reaction)) return;
+    const bump = (delta: number) =>
+      setPost((p) => ({
+        ...p,
+        reactions: {
+          ...p.reactions,
+          [reaction]: (p.reactions?.[reaction] ?? 0) + delta,
+        },
+      }));
+
+    bump(1);
+    const result = await reactToPost(postId, reaction);
+    if (result.ok) {
+      setPost((p) => ({ ...p, reactions: result.reactions }));
+    } else {
+      bump(-1);
+    }
+  };
+
+  return (
+    <PostCard
+      post={post}
+      likesLeft={likesLeft}
+      reactionsGiven={reactionsGiven}
+      onLike={handleLike}
+      onReact={handleReact}
+    />
+  );
+}
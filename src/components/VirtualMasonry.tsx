@@ -0,0 +1,200 @@
+"use client";
+
+import {
+  ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+// Column breakpoints, matching Tailwind's md and lg
+const TWO_COLUMNS_FROM = 768;
+const THREE_COLUMNS_FROM = 1024;
+
+const DEFAULT_OVERSCAN = 1200; // px rendered above and below the viewport
+
+interface VirtualMasonryProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  /**
+   * Expected height before a card has been measured. Columns are
+   * assigned from these estimates only, so a card never jumps
+   * column once its real height is known. Keep it (and getKey)
+   * stable between renders.
+   */
+  estimateHeight: (item: T, columnWidth: number) => number;
+  gap: number;
+  overscan?: number;
+  className?: string;
+}
+
+interface Placement<T> {
+  item: T;
+  key: string;
+  left: number;
+  top: number;
+  height: number;
+}
+
+function columnsFor(viewportWidth: number): number {
+  if (viewportWidth >= THREE_COLUMNS_FROM) return 3;
+  if (viewportWidth >= TWO_COLUMNS_FROM) return 2;
+  return 1;
+}
+
+function shortest(heights: number[]): number {
+  return heights.indexOf(Math.min(...heights));
+}
+
+/**
+ * Masonry grid that only mounts the cards near the viewport.
+ * Every card is absolutely positioned from measured (or, until
+ * then, estimated) heights; the container keeps the full height
+ * so scrolling and anything placed after it (e.g. an infinite
+ * scroll sentinel) behave as if every card were rendered.
+ */
+export default function VirtualMasonry<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight,
+  gap,
+  overscan = DEFAULT_OVERSCAN,
+  className = "",
+}: VirtualMasonryProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const cardObserverRef = useRef<ResizeObserver | null>(null);
+  const [grid, setGrid] = useState({ width: 0, columns: 1 });
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  const [viewport, setViewport] = useState({ top: 0, bottom: overscan });
+
+  // ----- Container width and column count -----
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let last = { width: 0, columns: 1 };
+    const ro = new ResizeObserver(() => {
+      const width = container.offsetWidth;
+      const columns = columnsFor(window.innerWidth);
+      if (width === last.width && columns === last.columns) return;
+      last = { width, columns };
+      setGrid(last);
+      setHeights({}); // measured at the old width
+    });
+    ro.observe(container);
+    return () => ro.disconnect();
+  }, []);
+
+  // ----- Visible window, relative to the container -----
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) return;
+      const offset = -container.getBoundingClientRect().top;
+      setViewport({
+        top: offset - overscan,
+        bottom: offset + window.innerHeight + overscan,
+      });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    schedule();
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [overscan]);
+
+  // ----- Card heights (comment threads expand in place) -----
+  useEffect(() => () => cardObserverRef.current?.disconnect(), []);
+
+  const observeCard = useCallback((el: HTMLDivElement | null) => {
+    if (!el) return;
+    cardObserverRef.current ??= new ResizeObserver((entries) =>
+      setHeights((prev) => {
+        let next = prev;
+        for (const entry of entries) {
+          const card = entry.target as HTMLElement;
+          const key = card.dataset.key;
+          const height = card.offsetHeight;
+          if (!key || Math.abs((prev[key] ?? -1) - height) < 0.5) continue;
+          if (next === prev) next = { ...prev };
+          next[key] = height;
+        }
+        return next;
+      })
+    );
+    const ro = cardObserverRef.current;
+    ro.observe(el);
+    return () => ro.unobserve(el);
+  }, []);
+
+  // ----- Layout -----
+  const { width, columns } = grid;
+  const columnWidth = (width - gap * (columns - 1)) / columns;
+
+  const { placements, totalHeight } = useMemo(() => {
+    const estimated = new Array(columns).fill(0); // decides the column
+    const actual = new Array(columns).fill(0); // decides the position
+    const placements: Placement<T>[] = items.map((item) => {
+      const key = getKey(item);
+      const estimate = estimateHeight(item, columnWidth);
+      const height = heights[key] ?? estimate;
+      const column = shortest(estimated);
+      estimated[column] += estimate + gap;
+
+      const top = actual[column];
+      actual[column] += height + gap;
+      return {
+        item,
+        key,
+        left: column * (columnWidth + gap),
+        top,
+        height,
+      };
+    });
+    return {
+      placements,
+      totalHeight: Math.max(0, Math.max(...actual) - gap),
+    };
+  }, [items, getKey, estimateHeight, heights, columns, columnWidth, gap]);
+
+  const visible = placements.filter(
+    (p) => p.top + p.height >= viewport.top && p.top <= viewport.bottom
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative ${className}`}
+      style={{ height: totalHeight }}
+    >
+      {width > 0 &&
+        visible.map(({ item, key, left, top }) => (
+          <div
+            key={key}
+            ref={observeCard}
+            data-key={key}
+            className="absolute left-0 top-0"
+            style={{
+              width: columnWidth,
+              transform: `translate(${left}px, ${top}px)`,
+            }}
+          >
+            {renderItem(item)}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+// ============================================================
+// Admin sign-in on the client
+// Supabase Auth stores the session in cookies; API routes and
+// the proxy verify it server-side (src/lib/server/admin.ts).
+// ============================================================
+
+import { supabase } from "./supabase";
+import { ADMIN_LOGIN_PATH } from "./admin";
+
+export function signInWithPassword(email: string, password: string) {
+  return supabase.auth.signInWithPassword({ email, password });
+}
+
+/** Email a one-time sign-in link that lands on `next`. */
+export function sendMagicLink(email: string, next: string) {
+  const callback = new URL("/auth/callback", window.location.origin);
+  callback.searchParams.set("next", next);
+
+  return supabase.auth.signInWithOtp({
+    email,
+    // Admins are invited, never created by signing in
+    options: { shouldCreateUser: false, emailRedirectTo: callback.href },
+  });
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) console.error("Error signing out:", error);
+  window.location.assign(ADMIN_LOGIN_PATH);
+}
+
+/** Login URL that comes back to the current page afterwards. */
+export function loginUrl(): string {
+  const next = window.location.pathname + window.location.search;
+  return `${ADMIN_LOGIN_PATH}?next=${encodeURIComponent(next)}`;
+}
@@ -0,0 +1,40 @@
+// ============================================================
+// Admin roles and routes shared by the proxy, API routes and
+// admin pages. Roles are cumulative: each one can do everything
+// the roles before it can.
+// ============================================================
+
+export type AdminRole = "viewer" | "moderator" | "owner";
+
+export const ADMIN_ROLES: readonly AdminRole[] = [
+  "viewer",
+  "moderator",
+  "owner",
+];
+
+export interface AdminUser {
+  id: string;
+  email: string | null;
+  role: AdminRole;
+}
+
+export const ADMIN_LOGIN_PATH = "/admin/login";
+export const ADMIN_HOME_PATH = "/admin/dashboard/metrics";
+
+export function hasRole(role: AdminRole, required: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
+
+// URL parsing treats "\" like "/" and drops tabs and newlines, so
+// "/\evil.com" or "/\t/evil.com" would resolve off-site
+const UNSAFE_PATH_CHARS_RE = /[\\\u0000-\u001f\u007f]/;
+
+/** Only same-site paths, so ?next= can't redirect off-site. */
+export function safeNextPath(next: string | null | undefined): string {
+  return next &&
+    next.startsWith("/") &&
+    !next.startsWith("//") &&
+    !UNSAFE_PATH_CHARS_RE.test(next)
+    ? next
+    : ADMIN_HOME_PATH;
+}
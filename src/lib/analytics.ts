@@ -1,14 +1,13 @@
 // ============================================================
 // Event Tracking Layer
-// Every tracked action goes through trackEvent(), which
-// automatically attaches the user_pseudo_id.
+// Every tracked action goes through trackEvent(); the API
+// route stores it with the caller's user_pseudo_id.
 // ============================================================
 
-import { supabase } from "./supabase";
-import { getUserId } from "./identity";
+import { api } from "./api";
 
 /**
- * Insert a row into analytics_events with the current user's pseudo ID.
+ * Record a row in analytics_events for the current device.
  */
 export async function trackEvent(
   eventName: string,
@@ -17,11 +16,8 @@ export async function trackEvent(
     metadata?: Record<string, unknown>;
   }
 ): Promise<void> {
-  const userId = getUserId();
-
-  const { error } = await supabase.from("analytics_events").insert({
+  const { error } = await api.post("/api/events", {
     event_name: eventName,
-    user_pseudo_id: userId,
     post_id: options?.postId ?? null,
     metadata: options?.metadata ?? {},
   });
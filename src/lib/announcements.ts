@@ -0,0 +1,55 @@
+// ============================================================
+// Announcements — official banners on the feed
+// Scheduled from /admin/announcements. Dismissals are per
+// device (localStorage), like the other sg_* keys.
+// ============================================================
+
+import { api } from "./api";
+
+export type AnnouncementSeverity = "info" | "warning" | "critical";
+
+export const ANNOUNCEMENT_SEVERITIES: readonly AnnouncementSeverity[] = [
+  "info",
+  "warning",
+  "critical",
+];
+
+export interface Announcement {
+  id: string;
+  title: string;
+  body: string;
+  severity: AnnouncementSeverity;
+  starts_at: string;
+  ends_at: string | null; // null = until removed
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_TITLE_CHARS = 120;
+export const MAX_BODY_CHARS = 1000;
+
+const DISMISSED_KEY = "sg_dismissed_announcements";
+
+/** Announcements live right now, most severe first. */
+export function fetchActiveAnnouncements() {
+  return api.get<Announcement[]>("/api/announcements");
+}
+
+export function getDismissedAnnouncements(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const ids = JSON.parse(localStorage.getItem(DISMISSED_KEY) ?? "[]");
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remember a dismissal on this device. Only IDs still live are
+ * kept, so the list can't grow forever.
+ */
+export function dismissAnnouncement(id: string, liveIds: string[]): void {
+  const kept = getDismissedAnnouncements().filter((d) => liveIds.includes(d));
+  localStorage.setItem(DISMISSED_KEY, JSON.stringify([...kept, id]));
+}
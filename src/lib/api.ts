@@ -0,0 +1,98 @@
+// ============================================================
+// Typed fetch wrapper for our own API routes (src/app/api)
+// Mirrors the Supabase client's { data, error } shape and
+// attaches the device pseudo ID to every request.
+// ============================================================
+
+import { getUserId } from "./identity";
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public body: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  /** Seconds to wait after a 429 from the server rate limiter. */
+  get retryAfter(): number {
+    const value = this.body.retryAfter;
+    return typeof value === "number" ? value : 0;
+  }
+}
+
+export type ApiResponse<T> =
+  | { data: T; error: null }
+  | { data: null; error: ApiError };
+
+type Query = Record<string, string | number | boolean | null | undefined>;
+
+interface RequestOptions {
+  query?: Query;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+function buildUrl(path: string, query?: Query): string {
+  if (!query) return path;
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== null && value !== undefined) params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+async function request<T>(
+  method: string,
+  path: string,
+  options: RequestOptions = {}
+): Promise<ApiResponse<T>> {
+  const headers: Record<string, string> = {
+    "x-pseudo-id": getUserId(),
+    ...options.headers,
+  };
+  if (options.body !== undefined) headers["content-type"] = "application/json";
+
+  let res: Response;
+  try {
+    res = await fetch(buildUrl(path, options.query), {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+  } catch (err) {
+    return {
+      data: null,
+      error: new ApiError(0, "network_error", (err as Error).message),
+    };
+  }
+
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    return {
+      data: null,
+      error: new ApiError(
+        res.status,
+        payload.error ?? "http_error",
+        payload.message ?? res.statusText,
+        payload
+      ),
+    };
+  }
+  return { data: payload as T, error: null };
+}
+
+export const api = {
+  get: <T>(path: string, options?: Omit<RequestOptions, "body">) =>
+    request<T>("GET", path, options),
+  post: <T>(path: string, body?: unknown, options?: RequestOptions) =>
+    request<T>("POST", path, { ...options, body }),
+  patch: <T>(path: string, body?: unknown, options?: RequestOptions) =>
+    request<T>("PATCH", path, { ...options, body }),
+  delete: <T>(path: string, options?: RequestOptions) =>
+    request<T>("DELETE", path, options),
+};
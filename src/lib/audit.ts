@@ -0,0 +1,65 @@
+// ============================================================
+// Admin audit log (admin_audit_log table)
+// Every privileged action is recorded with its actor, target
+// and the target's state before and after. Add new actions
+// here so /admin/audit can filter and label them.
+// ============================================================
+
+import { AdminRole } from "./admin";
+
+export type AuditAction =
+  | "post.approve"
+  | "post.remove"
+  | "post.restore"
+  | "post.pin"
+  | "post.unpin"
+  | "post.feature"
+  | "post.unfeature"
+  | "post.delete"
+  | "comment.approve"
+  | "comment.remove"
+  | "flag.update"
+  | "announcement.create"
+  | "announcement.update"
+  | "announcement.delete"
+  | "ban.create"
+  | "ban.revoke";
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: "post.approve", label: "Approved post" },
+  { value: "post.remove", label: "Removed post" },
+  { value: "post.restore", label: "Restored post" },
+  { value: "post.pin", label: "Pinned post" },
+  { value: "post.unpin", label: "Unpinned post" },
+  { value: "post.feature", label: "Featured post" },
+  { value: "post.unfeature", label: "Unfeatured post" },
+  { value: "post.delete", label: "Deleted post" },
+  { value: "comment.approve", label: "Approved comment" },
+  { value: "comment.remove", label: "Rejected comment" },
+  { value: "flag.update", label: "Changed feature flag" },
+  { value: "announcement.create", label: "Created announcement" },
+  { value: "announcement.update", label: "Edited announcement" },
+  { value: "announcement.delete", label: "Deleted announcement" },
+  { value: "ban.create", label: "Banned device" },
+  { value: "ban.revoke", label: "Lifted ban" },
+];
+
+export const AUDIT_ACTION_TYPES: readonly AuditAction[] = AUDIT_ACTIONS.map(
+  (a) => a.value
+);
+
+export type AuditTargetType =
+  "post" | "comment" | "flag" | "announcement" | "ban";
+
+export interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: AdminRole;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
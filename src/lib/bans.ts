@@ -0,0 +1,43 @@
+// ============================================================
+// Device bans and shadowbans (see
+// supabase/migrations/20260317000000_bans.sql)
+// Issued from a post in /admin/posts or /admin/moderation and
+// reviewed in /admin/bans.
+// ============================================================
+
+export type BanKind = "ban" | "shadowban";
+
+export const BAN_KINDS: { value: BanKind; label: string }[] = [
+  { value: "ban", label: "Ban (posting, liking and reporting blocked)" },
+  { value: "shadowban", label: "Shadowban (posts only visible to them)" },
+];
+
+export const BAN_KIND_TYPES: readonly BanKind[] = BAN_KINDS.map((k) => k.value);
+
+// Offered in the ban form; null = until revoked
+export const BAN_DURATIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: null, label: "Until revoked" },
+];
+
+export const MAX_BAN_REASON_CHARS = 500;
+
+export interface Ban {
+  id: string;
+  kind: BanKind;
+  user_pseudo_id: string;
+  ip_hash: string | null; // set when the network is banned too
+  reason: string;
+  post_id: string | null; // the post it was issued from
+  expires_at: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export function isBanActive(ban: Ban, now = Date.now()): boolean {
+  return (
+    !ban.revoked_at && (!ban.expires_at || Date.parse(ban.expires_at) > now)
+  );
+}
@@ -0,0 +1,28 @@
+// ============================================================
+// Comment threads
+// Reads page through GET /api/posts/[id]/comments (oldest
+// first); writes go through add_comment(), which assigns the
+// stable "Anon #N" handle.
+// ============================================================
+
+import { api } from "./api";
+import { Page } from "./feed";
+import { Comment } from "./types";
+
+export function anonHandle(comment: Pick<Comment, "anon_number">): string {
+  return `Anon #${comment.anon_number}`;
+}
+
+export function fetchComments(
+  postId: string,
+  cursor: string | null,
+  limit: number
+) {
+  return api.get<Page<Comment>>(`/api/posts/${postId}/comments`, {
+    query: { cursor, limit },
+  });
+}
+
+export function addComment(postId: string, content: string) {
+  return api.post<Comment>(`/api/posts/${postId}/comments`, { content });
+}
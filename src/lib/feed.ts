@@ -0,0 +1,49 @@
+// ============================================================
+// Home feed modes and paging
+// Hot   — likes with time decay (posts.hot_score, see migration)
+// Top   — most liked within a period
+// New   — newest first
+// Queries run server-side (src/lib/server/posts.ts) with keyset
+// pagination; the client only passes back an opaque cursor.
+// ============================================================
+
+import { api } from "./api";
+import { Post } from "./types";
+
+export type FeedSort = "hot" | "top" | "new";
+export type TopPeriod = "day" | "week" | "all";
+
+export const FEED_SORTS: readonly FeedSort[] = ["hot", "top", "new"];
+export const TOP_PERIODS: readonly TopPeriod[] = ["day", "week", "all"];
+
+export interface FeedMode {
+  sort: FeedSort;
+  period: TopPeriod; // only used by "top"
+}
+
+export const DEFAULT_FEED_MODE: FeedMode = { sort: "hot", period: "day" };
+
+export interface Page<T> {
+  items: T[];
+  cursor: string | null; // opaque; pass back to get the next page
+  hasMore: boolean;
+}
+
+/**
+ * Fetch a page of the home feed. Pass `cursor: null` for the first page,
+ * which starts with any pinned posts.
+ */
+export function fetchFeedPage(
+  mode: FeedMode,
+  cursor: string | null,
+  limit: number
+) {
+  return api.get<Page<Post>>("/api/posts", {
+    query: { sort: mode.sort, period: mode.period, cursor, limit },
+  });
+}
+
+/** This device's own posts still awaiting moderator approval. */
+export function fetchPendingPosts() {
+  return api.get<Post[]>("/api/posts/pending");
+}
@@ -0,0 +1,68 @@
+// ============================================================
+// Feature flags — shared by the useFlag hook and the API routes
+// A flag is on for a device when it's enabled and the device's
+// bucket (stable hash of flag key + pseudo ID, 0–99) falls under
+// rollout_percent, so a device keeps its answer as the rollout
+// grows.
+// ============================================================
+
+export type FlagKey =
+  | "posting"
+  | "image_uploads"
+  | "video_uploads"
+  | "feedback_survey"
+  | "hold_for_review";
+
+export const FLAG_KEYS: readonly FlagKey[] = [
+  "posting",
+  "image_uploads",
+  "video_uploads",
+  "feedback_survey",
+  "hold_for_review",
+];
+
+/** A row of the feature_flags table. */
+export interface FeatureFlag {
+  key: FlagKey;
+  enabled: boolean;
+  rollout_percent: number;
+  message: string | null;
+  updated_at: string;
+}
+
+/** A flag as evaluated for one device. */
+export interface FlagState {
+  enabled: boolean;
+  message: string | null;
+}
+
+export type FlagStates = Record<FlagKey, FlagState>;
+
+// Used until flags load, and for flags missing from the table
+export const DEFAULT_FLAGS: FlagStates = {
+  posting: { enabled: false, message: null },
+  image_uploads: { enabled: true, message: null },
+  video_uploads: { enabled: true, message: null },
+  feedback_survey: { enabled: true, message: null },
+  hold_for_review: { enabled: false, message: null },
+};
+
+/** 32-bit FNV-1a; tiny, fast and identical on server and client. */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function rolloutBucket(key: FlagKey, userId: string): number {
+  return fnv1a(`${key}:${userId}`) % 100;
+}
+
+export function evaluateFlag(flag: FeatureFlag, userId: string): FlagState {
+  const enabled =
+    flag.enabled && rolloutBucket(flag.key, userId) < flag.rollout_percent;
+  return { enabled, message: flag.message };
+}
@@ -0,0 +1,54 @@
+// ============================================================
+// Display formatting helpers shared by feed and post pages
+// ============================================================
+
+import { Post, PostMedia } from "./types";
+
+/** Compact relative time: 42s, 5m, 3h, 2d */
+export function timeAgo(dateStr: string): string {
+  const seconds = Math.floor(
+    (Date.now() - new Date(dateStr).getTime()) / 1000
+  );
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+export function hasImage(post: Post): boolean {
+  return !!post.media_url && post.media_type === "image";
+}
+
+/**
+ * A post's images in order. Posts from before post_media, and
+ * Realtime rows (which can't embed it), fall back to media_url.
+ */
+export function postImages(post: Post): PostMedia[] {
+  if (post.media?.length) {
+    return [...post.media].sort((a, b) => a.position - b.position);
+  }
+  if (!hasImage(post)) return [];
+  return [
+    {
+      position: 0,
+      url: post.media_url!,
+      width: post.media_width,
+      height: post.media_height,
+      placeholder: post.media_placeholder,
+    },
+  ];
+}
+
+export function hasVideo(post: Post): boolean {
+  return !!post.media_url && post.media_type === "video";
+}
+
+/** Shorten text for titles and previews, cutting on a word boundary. */
+export function truncate(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > max / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
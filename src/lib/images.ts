@@ -0,0 +1,215 @@
+// ============================================================
+// Client-side image pipeline, run before anything is uploaded
+// Decoding to a canvas and re-encoding drops every byte of
+// metadata (EXIF GPS, camera serials, XMP), downscales to
+// MAX_IMAGE_DIMENSION and compresses to WebP, or JPEG where the
+// browser can't encode WebP. EXIF orientation is applied first
+// so photos stay the right way up without it. Also produces the
+// tiny placeholder the feed shows while the image loads.
+// GIFs are the exception: re-encoding would keep only the first
+// frame, so their frames are uploaded as they are and only the
+// metadata blocks (comments, XMP and other application data) are
+// dropped. They aren't downscaled; /create turns away any larger
+// than MAX_IMAGE_DIMENSION.
+// ============================================================
+
+import {
+  IMAGE_QUALITY,
+  ImageType,
+  MAX_IMAGE_DIMENSION,
+  MAX_PLACEHOLDER_CHARS,
+  PLACEHOLDER_DIMENSION,
+} from "./limits";
+
+export interface ProcessedImage {
+  blob: Blob;
+  type: ImageType;
+  width: number;
+  height: number;
+  placeholder: string | null; // data: URL, see makePlaceholder
+}
+
+function toBlob(
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number
+): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+function scaledSize(
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * A PLACEHOLDER_DIMENSION-sized copy as a data: URL; the feed
+ * stretches and blurs it. Null if it comes out too large to store.
+ */
+function makePlaceholder(bitmap: ImageBitmap): string | null {
+  const { width, height } = scaledSize(
+    bitmap.width,
+    bitmap.height,
+    PLACEHOLDER_DIMENSION
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  let url = canvas.toDataURL("image/webp", 0.5);
+  if (!url.startsWith("data:image/webp")) {
+    url = canvas.toDataURL("image/jpeg", 0.5);
+  }
+  return url.length <= MAX_PLACEHOLDER_CHARS ? url : null;
+}
+
+/**
+ * Downscale and compress a decoded frame for upload (WebP, or
+ * JPEG where the browser can't encode WebP). Also used for the
+ * poster of a video post (src/lib/videos.ts).
+ */
+export async function encodeBitmap(
+  bitmap: ImageBitmap
+): Promise<ProcessedImage> {
+  const placeholder = makePlaceholder(bitmap);
+  const { width, height } = scaledSize(
+    bitmap.width,
+    bitmap.height,
+    MAX_IMAGE_DIMENSION
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(bitmap, 0, 0, width, height);
+
+  // Browsers without a WebP encoder silently return PNG
+  const webp = await toBlob(canvas, "image/webp", IMAGE_QUALITY);
+  if (webp?.type === "image/webp") {
+    return { blob: webp, type: "image/webp", width, height, placeholder };
+  }
+
+  // JPEG has no alpha: flatten transparent areas onto white
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, width, height);
+  const jpeg = await toBlob(canvas, "image/jpeg", IMAGE_QUALITY);
+  if (!jpeg) throw new Error("Could not encode image");
+  return { blob: jpeg, type: "image/jpeg", width, height, placeholder };
+}
+
+// Application extensions that only control looping
+const GIF_LOOP_APPS = new Set(["NETSCAPE2.0", "ANIMEXTS1.0"]);
+
+/** Bytes taken by a GIF color table, from its packed flags byte. */
+function gifColorTableSize(packed: number): number {
+  return packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0;
+}
+
+/**
+ * Copy a GIF without its comment and application extensions,
+ * keeping frames, frame timing and looping. Throws on a file
+ * that doesn't parse as a GIF.
+ */
+function stripGifMetadata(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const kept: Uint8Array[] = [];
+  let pos = 0;
+  const read = (length: number) => {
+    if (pos + length > bytes.length) throw new Error("Truncated GIF");
+    const chunk = bytes.subarray(pos, pos + length);
+    pos += length;
+    return chunk;
+  };
+  // Data sub-blocks: length-prefixed, ending with a zero length
+  const readSubBlocks = () => {
+    const start = pos;
+    for (let size = read(1)[0]; size > 0; size = read(1)[0]) read(size);
+    return bytes.subarray(start, pos);
+  };
+
+  const header = read(13); // signature, version, screen descriptor
+  if (!/^GIF8[79]a$/.test(String.fromCharCode(...header.subarray(0, 6)))) {
+    throw new Error("Not a GIF");
+  }
+  kept.push(header, read(gifColorTableSize(header[10])));
+
+  for (;;) {
+    const [introducer] = read(1);
+    if (introducer === 0x3b) break; // trailer
+
+    if (introducer === 0x2c) {
+      const descriptor = read(9);
+      const colorTable = read(gifColorTableSize(descriptor[8]));
+      const minCodeSize = read(1);
+      kept.push(
+        Uint8Array.of(introducer),
+        descriptor,
+        colorTable,
+        minCodeSize,
+        readSubBlocks()
+      );
+    } else if (introducer === 0x21) {
+      const [label] = read(1);
+      const data = readSubBlocks();
+      const app =
+        label === 0xff && data[0] === 11
+          ? String.fromCharCode(...data.subarray(1, 12))
+          : null;
+      // Graphic control (frame timing) and plain text are content
+      if (label === 0xf9 || label === 0x01 || GIF_LOOP_APPS.has(app ?? "")) {
+        kept.push(Uint8Array.of(introducer, label), data);
+      }
+    } else {
+      throw new Error("Unexpected GIF block");
+    }
+  }
+  kept.push(Uint8Array.of(0x3b));
+
+  const out = new Uint8Array(kept.reduce((sum, b) => sum + b.length, 0));
+  let offset = 0;
+  for (const chunk of kept) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Re-encode a picked image for upload. GIFs keep their frames
+ * (re-encoding would drop the animation) and size, minus their
+ * metadata blocks. Rejects if the browser can't decode the file.
+ */
+export async function processImage(file: File): Promise<ProcessedImage> {
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: "from-image",
+  });
+
+  try {
+    if (file.type === "image/gif") {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      return {
+        blob: new Blob([stripGifMetadata(bytes)], { type: "image/gif" }),
+        type: "image/gif",
+        width: bitmap.width,
+        height: bitmap.height,
+        placeholder: makePlaceholder(bitmap),
+      };
+    }
+    return await encodeBitmap(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
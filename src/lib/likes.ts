@@ -0,0 +1,43 @@
+// ============================================================
+// Likes
+// POST /api/posts/[id]/like runs the like_post() database
+// function, which increments atomically and enforces the
+// per-device cap; the route also throttles likes per network.
+// ============================================================
+
+import { api } from "./api";
+
+export type LikeResult =
+  | { ok: true; likes: number }
+  | { ok: false; reason: "limit_reached" | "error" }
+  | { ok: false; reason: "banned" | "rate_limited"; message: string };
+
+/**
+ * Like a post once. Resolves with the post's new like count.
+ */
+export async function likePost(postId: string): Promise<LikeResult> {
+  const { data, error } = await api.post<{ likes: number }>(
+    `/api/posts/${postId}/like`
+  );
+
+  if (error) {
+    // Only this device's own cap is final; a busy network just waits
+    if (error.code === "like_limit_reached") {
+      return { ok: false, reason: "limit_reached" };
+    }
+    if (error.code === "rate_limited") {
+      return {
+        ok: false,
+        reason: "rate_limited",
+        message: "Lots of likes from your network right now. Try again later.",
+      };
+    }
+    if (error.code === "banned") {
+      return { ok: false, reason: "banned", message: error.message };
+    }
+    console.error("Error liking post:", error);
+    return { ok: false, reason: "error" };
+  }
+
+  return { ok: true, likes: data.likes };
+}
@@ -0,0 +1,29 @@
+// ============================================================
+// Content limits shared by the client forms and the API routes
+// ============================================================
+
+export const MAX_CONTENT_CHARS = 255;
+
+export const MAX_POST_IMAGES = 4;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5 MB, after processing
+export const MAX_SOURCE_IMAGE_BYTES = 20 * 1024 * 1024; // picked file
+export const MAX_IMAGE_DIMENSION = 1600; // longest side, px
+export const IMAGE_QUALITY = 0.82; // WebP/JPEG encoder quality
+export const PLACEHOLDER_DIMENSION = 16; // longest side of the blur preview
+export const MAX_PLACEHOLDER_CHARS = 2048; // its data: URL
+export const IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+] as const;
+export type ImageType = (typeof IMAGE_TYPES)[number];
+
+export const MAX_VIDEO_BYTES = 25 * 1024 * 1024; // not re-encoded
+export const MAX_VIDEO_SECONDS = 30;
+export const VIDEO_TYPES = [
+  "video/mp4",
+  "video/webm",
+  "video/quicktime",
+] as const;
+export type VideoType = (typeof VIDEO_TYPES)[number];
@@ -0,0 +1,333 @@
+// ============================================================
+// Product metrics
+// Computed server-side by GET /api/metrics from raw events,
+// feedback and posts; the dashboards only render the result.
+// ============================================================
+
+import { totalReactions } from "./reactions";
+import { Post } from "./types";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface RawEvent {
+  id: string;
+  event_name: string;
+  user_pseudo_id: string | null;
+  created_at: string;
+}
+
+export interface RawFeedback {
+  rating: string;
+}
+
+export interface RawPost {
+  likes: number;
+  reactions: Post["reactions"];
+}
+
+export interface Metrics {
+  // Acquisition & Activation
+  uniqueVisits: number;
+  activationRate: number;
+  activationGoalMet: boolean;
+  totalQrScans: number;
+
+  // Engagement
+  dau: number;
+  totalPosts: number;
+  totalLikes: number;
+  totalReactions: number;
+  totalShares: number;
+  engagementRate: number;
+  avgSessionLengthMin: number;
+
+  // Retention
+  churnRate: number;
+  day1Retention: number;
+
+  // Virality & Satisfaction
+  viralCoefficient: number;
+  npsScore: number;
+  npsThresholdMet: boolean;
+  happyCount: number;
+  normalCount: number;
+  sadCount: number;
+  totalFeedback: number;
+}
+
+export const EMPTY_METRICS: Metrics = {
+  uniqueVisits: 0,
+  activationRate: 0,
+  activationGoalMet: false,
+  totalQrScans: 0,
+  dau: 0,
+  totalPosts: 0,
+  totalLikes: 0,
+  totalReactions: 0,
+  totalShares: 0,
+  engagementRate: 0,
+  avgSessionLengthMin: 0,
+  churnRate: 0,
+  day1Retention: 0,
+  viralCoefficient: 0,
+  npsScore: 0,
+  npsThresholdMet: false,
+  happyCount: 0,
+  normalCount: 0,
+  sadCount: 0,
+  totalFeedback: 0,
+};
+
+// ============================================================
+// Calculation helpers
+// ============================================================
+
+export function computeMetrics(
+  events: RawEvent[],
+  feedback: RawFeedback[],
+  posts: RawPost[]
+): Metrics {
+  const now = Date.now();
+  const MS_24H = 24 * 60 * 60 * 1000;
+  const MS_48H = 48 * 60 * 60 * 1000;
+  const MS_7D = 7 * 24 * 60 * 60 * 1000;
+  const MS_8D = 8 * 24 * 60 * 60 * 1000;
+  const SESSION_GAP = 30 * 60 * 1000;
+
+  // --- Unique users ---
+  const allUsers = new Set(
+    events.map((e) => e.user_pseudo_id).filter(Boolean)
+  );
+  const uniqueVisits = allUsers.size;
+
+  // --- Activation: users who created a post ---
+  const activatedUsers = new Set(
+    events
+      .filter((e) => e.event_name === "post_created")
+      .map((e) => e.user_pseudo_id)
+      .filter(Boolean)
+  );
+  const activationRate =
+    uniqueVisits > 0 ? (activatedUsers.size / uniqueVisits) * 100 : 0;
+
+  // --- QR Scans ---
+  const totalQrScans = events.filter(
+    (e) => e.event_name === "qr_scan"
+  ).length;
+
+  // --- DAU: distinct users in last 24 h ---
+  const dau = new Set(
+    events
+      .filter((e) => now - new Date(e.created_at).getTime() < MS_24H)
+      .map((e) => e.user_pseudo_id)
+      .filter(Boolean)
+  ).size;
+
+  // --- Engagement ---
+  const totalPosts = posts.length;
+  const totalLikes = posts.reduce((s, p) => s + (p.likes ?? 0), 0);
+  const totalReactionCount = posts.reduce(
+    (s, p) => s + totalReactions(p.reactions),
+    0
+  );
+  const totalShares = events.filter(
+    (e) => e.event_name === "share_post"
+  ).length;
+  const totalViews = events.filter((e) =>
+    ["session_start", "first_visit"].includes(e.event_name)
+  ).length;
+  const engagementRate =
+    totalViews > 0
+      ? ((totalLikes + totalReactionCount + totalShares) / totalViews) * 100
+      : 0;
+
+  // --- Average session length ---
+  // Group events by user, sort, split into sessions by 30-min gap
+  const byUser: Record<string, number[]> = {};
+  for (const e of events) {
+    const uid = e.user_pseudo_id;
+    if (!uid) continue;
+    if (!byUser[uid]) byUser[uid] = [];
+    byUser[uid].push(new Date(e.created_at).getTime());
+  }
+
+  let totalSessionMs = 0;
+  let sessionCount = 0;
+
+  for (const uid in byUser) {
+    const times = byUser[uid].sort((a, b) => a - b);
+    let sessionStart = times[0];
+    let lastEvent = sessionStart;
+
+    for (let i = 1; i < times.length; i++) {
+      if (times[i] - lastEvent > SESSION_GAP) {
+        // close previous session
+        totalSessionMs += lastEvent - sessionStart;
+        sessionCount++;
+        sessionStart = times[i];
+      }
+      lastEvent = times[i];
+    }
+    // close last session
+    totalSessionMs += lastEvent - sessionStart;
+    sessionCount++;
+  }
+  const avgSessionLengthMin =
+    sessionCount > 0 ? totalSessionMs / sessionCount / 60000 : 0;
+
+  // --- Churn rate ---
+  // Users active 7–8 days ago who are NOT active in the last 24 h
+  const activeWeekAgo = new Set(
+    events
+      .filter((e) => {
+        const t = new Date(e.created_at).getTime();
+        return now - t >= MS_7D && now - t < MS_8D;
+      })
+      .map((e) => e.user_pseudo_id)
+      .filter(Boolean)
+  );
+  const activeLast24h = new Set(
+    events
+      .filter((e) => now - new Date(e.created_at).getTime() < MS_24H)
+      .map((e) => e.user_pseudo_id)
+      .filter(Boolean)
+  );
+  const churnedUsers = [...activeWeekAgo].filter(
+    (uid) => !activeLast24h.has(uid)
+  );
+  const churnRate =
+    activeWeekAgo.size > 0
+      ? (churnedUsers.length / activeWeekAgo.size) * 100
+      : 0;
+
+  // --- Day 1 retention ---
+  // Users whose first_visit was 24–48 h ago → did they return (any event) in that window?
+  const firstVisitByUser: Record<string, number> = {};
+  for (const e of events) {
+    if (e.event_name === "first_visit" && e.user_pseudo_id) {
+      const t = new Date(e.created_at).getTime();
+      if (
+        !firstVisitByUser[e.user_pseudo_id] ||
+        t < firstVisitByUser[e.user_pseudo_id]
+      ) {
+        firstVisitByUser[e.user_pseudo_id] = t;
+      }
+    }
+  }
+
+  let eligibleDay1 = 0;
+  let returnedDay1 = 0;
+
+  for (const [uid, firstTime] of Object.entries(firstVisitByUser)) {
+    // Only count users whose first visit was > 24 h ago (had a chance to return)
+    if (now - firstTime < MS_24H) continue;
+    eligibleDay1++;
+
+    const hasReturn = events.some(
+      (e) =>
+        e.user_pseudo_id === uid &&
+        e.event_name !== "first_visit" &&
+        new Date(e.created_at).getTime() >= firstTime + MS_24H &&
+        new Date(e.created_at).getTime() < firstTime + MS_48H
+    );
+    if (hasReturn) returnedDay1++;
+  }
+  const day1Retention =
+    eligibleDay1 > 0 ? (returnedDay1 / eligibleDay1) * 100 : 0;
+
+  // --- Virality: avg shares per user ---
+  const viralCoefficient =
+    uniqueVisits > 0 ? totalShares / uniqueVisits : 0;
+
+  // --- NPS: (happy% - sad%) * 100 ---
+  const totalFeedback = feedback.length;
+  const happyCount = feedback.filter((f) => f.rating === "happy").length;
+  const normalCount = feedback.filter((f) => f.rating === "normal").length;
+  const sadCount = feedback.filter((f) => f.rating === "sad").length;
+  const happyPct = totalFeedback > 0 ? happyCount / totalFeedback : 0;
+  const sadPct = totalFeedback > 0 ? sadCount / totalFeedback : 0;
+  const npsScore = Math.round((happyPct - sadPct) * 100);
+
+  return {
+    uniqueVisits,
+    activationRate: Math.round(activationRate * 10) / 10,
+    activationGoalMet: activationRate > 50,
+    totalQrScans,
+    dau,
+    totalPosts,
+    totalLikes,
+    totalReactions: totalReactionCount,
+    totalShares,
+    engagementRate: Math.round(engagementRate * 10) / 10,
+    avgSessionLengthMin: Math.round(avgSessionLengthMin * 10) / 10,
+    churnRate: Math.round(churnRate * 10) / 10,
+    day1Retention: Math.round(day1Retention * 10) / 10,
+    viralCoefficient: Math.round(viralCoefficient * 100) / 100,
+    npsScore,
+    npsThresholdMet: npsScore > 40,
+    happyCount,
+    normalCount,
+    sadCount,
+    totalFeedback,
+  };
+}
+
+// ============================================================
+// Public summary (/dashboard/analytics)
+// ============================================================
+
+export interface AnalyticsSummary {
+  totalPosts: number;
+  totalLikes: number;
+  totalFeedback: number;
+  happyCount: number;
+  normalCount: number;
+  sadCount: number;
+  happyPercent: number;
+  sadPercent: number;
+  totalShares: number;
+}
+
+export const EMPTY_SUMMARY: AnalyticsSummary = {
+  totalPosts: 0,
+  totalLikes: 0,
+  totalFeedback: 0,
+  happyCount: 0,
+  normalCount: 0,
+  sadCount: 0,
+  happyPercent: 0,
+  sadPercent: 0,
+  totalShares: 0,
+};
+
+export function computeSummary(
+  posts: Pick<RawPost, "likes">[],
+  feedback: RawFeedback[],
+  totalShares: number
+): AnalyticsSummary {
+  const totalPosts = posts.length;
+  const totalLikes = posts.reduce((sum, p) => sum + (p.likes ?? 0), 0);
+
+  const totalFeedback = feedback.length;
+  const happyCount = feedback.filter((f) => f.rating === "happy").length;
+  const normalCount = feedback.filter((f) => f.rating === "normal").length;
+  const sadCount = feedback.filter((f) => f.rating === "sad").length;
+  const happyPercent =
+    totalFeedback > 0 ? Math.round((happyCount / totalFeedback) * 100) : 0;
+  const sadPercent =
+    totalFeedback > 0 ? Math.round((sadCount / totalFeedback) * 100) : 0;
+
+  return {
+    totalPosts,
+    totalLikes,
+    totalFeedback,
+    happyCount,
+    normalCount,
+    sadCount,
+    happyPercent,
+    sadPercent,
+    totalShares,
+  };
+}
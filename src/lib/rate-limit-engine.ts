@@ -0,0 +1,284 @@
+// ============================================================
+// Rate limit engine
+// Pure algorithms over small JSON states, plus limiters that
+// keep those states in a store. The browser uses a synchronous
+// localStorage store (src/lib/rate-limit.ts); API routes use an
+// async memory/Postgres store (src/lib/server/rate-limit.ts).
+// Policies live in src/lib/rate-limit-policies.ts.
+// ============================================================
+
+export type Algorithm =
+  | { type: "fixed_window"; limit: number; windowMs: number }
+  | { type: "sliding_window"; limit: number; windowMs: number }
+  | { type: "token_bucket"; capacity: number; refillEveryMs: number }
+  | { type: "cap"; limit: number; ttlMs: number };
+
+export interface Decision {
+  allowed: boolean;
+  remaining: number; // uses left after this one (or now, for check)
+  retryAfter: number; // seconds until the next use is allowed; 0 if now
+}
+
+// ----- Constructors (keep the policy table readable) -----
+
+export const fixedWindow = (limit: number, windowMs: number): Algorithm => ({
+  type: "fixed_window",
+  limit,
+  windowMs,
+});
+
+export const slidingWindow = (limit: number, windowMs: number): Algorithm => ({
+  type: "sliding_window",
+  limit,
+  windowMs,
+});
+
+/** `capacity` uses in a burst, then one more every `refillEveryMs`. */
+export const tokenBucket = (
+  capacity: number,
+  refillEveryMs: number
+): Algorithm => ({ type: "token_bucket", capacity, refillEveryMs });
+
+/** At most `limit` uses per key, ever (state kept for `ttlMs`). */
+export const cap = (
+  limit: number,
+  ttlMs = 365 * 24 * 60 * 60 * 1000
+): Algorithm => ({
+  type: "cap",
+  limit,
+  ttlMs,
+});
+
+// ============================================================
+// Algorithms
+// evaluate() answers "may I use one now?" and returns the state
+// to save if the use goes ahead. It never mutates `state`.
+// ============================================================
+
+type FixedState = { start: number; count: number };
+type SlidingState = number[];
+type BucketState = { tokens: number; at: number };
+type CapState = number;
+
+type State = FixedState | SlidingState | BucketState | CapState;
+
+const seconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+function evaluate(
+  alg: Algorithm,
+  state: State | null,
+  now: number
+): { decision: Decision; next: State } {
+  switch (alg.type) {
+    case "fixed_window": {
+      const prev = state as FixedState | null;
+      const window =
+        prev && now - prev.start < alg.windowMs
+          ? prev
+          : { start: now, count: 0 };
+      if (window.count >= alg.limit) {
+        const retryAfter = seconds(window.start + alg.windowMs - now);
+        return {
+          decision: { allowed: false, remaining: 0, retryAfter },
+          next: window,
+        };
+      }
+      return {
+        decision: {
+          allowed: true,
+          remaining: alg.limit - window.count - 1,
+          retryAfter: 0,
+        },
+        next: { start: window.start, count: window.count + 1 },
+      };
+    }
+
+    case "sliding_window": {
+      const times = ((state as SlidingState | null) ?? []).filter(
+        (t) => now - t < alg.windowMs
+      );
+      if (times.length >= alg.limit) {
+        // The oldest relevant timestamp determines when a slot opens
+        const retryAfter = seconds(Math.min(...times) + alg.windowMs - now);
+        return {
+          decision: { allowed: false, remaining: 0, retryAfter },
+          next: times,
+        };
+      }
+      return {
+        decision: {
+          allowed: true,
+          remaining: alg.limit - times.length - 1,
+          retryAfter: 0,
+        },
+        next: [...times, now],
+      };
+    }
+
+    case "token_bucket": {
+      const prev = (state as BucketState | null) ?? {
+        tokens: alg.capacity,
+        at: now,
+      };
+      const refilled = (now - prev.at) / alg.refillEveryMs;
+      const tokens = Math.min(alg.capacity, prev.tokens + refilled);
+      if (tokens < 1) {
+        const retryAfter = seconds((1 - tokens) * alg.refillEveryMs);
+        return {
+          decision: { allowed: false, remaining: 0, retryAfter },
+          next: { tokens, at: now },
+        };
+      }
+      return {
+        decision: {
+          allowed: true,
+          remaining: Math.floor(tokens - 1),
+          retryAfter: 0,
+        },
+        next: { tokens: tokens - 1, at: now },
+      };
+    }
+
+    case "cap": {
+      const used = (state as CapState | null) ?? 0;
+      if (used >= alg.limit) {
+        // Caps never reopen; report the remaining state lifetime
+        return {
+          decision: {
+            allowed: false,
+            remaining: 0,
+            retryAfter: seconds(alg.ttlMs),
+          },
+          next: used,
+        };
+      }
+      return {
+        decision: {
+          allowed: true,
+          remaining: alg.limit - used - 1,
+          retryAfter: 0,
+        },
+        next: used + 1,
+      };
+    }
+  }
+}
+
+/** How long a state must be kept before it no longer matters. */
+export function ttlFor(alg: Algorithm): number {
+  switch (alg.type) {
+    case "fixed_window":
+    case "sliding_window":
+      return alg.windowMs;
+    case "token_bucket":
+      return alg.capacity * alg.refillEveryMs;
+    case "cap":
+      return alg.ttlMs;
+  }
+}
+
+/** State for a key that has used up its allowance. */
+function exhausted(alg: Algorithm, now: number): State {
+  switch (alg.type) {
+    case "fixed_window":
+      return { start: now, count: alg.limit };
+    case "sliding_window":
+      return Array<number>(alg.limit).fill(now);
+    case "token_bucket":
+      return { tokens: 0, at: now };
+    case "cap":
+      return alg.limit;
+  }
+}
+
+/** check() reports what consume() would do, without using anything. */
+function peek(decision: Decision): Decision {
+  return decision.allowed
+    ? { ...decision, remaining: decision.remaining + 1 }
+    : decision;
+}
+
+// ============================================================
+// Limiters
+// ============================================================
+
+export interface SyncStore {
+  get<S>(key: string): S | null;
+  set<S>(key: string, state: S, ttlMs: number): void;
+}
+
+export interface AsyncStore {
+  get<S>(key: string): Promise<S | null>;
+  /**
+   * Atomically read-modify-write `key`. `fn` may run more than once
+   * under contention, so it must be pure. Returning the same `state`
+   * object it was given skips the write.
+   */
+  update<S, R>(
+    key: string,
+    ttlMs: number,
+    fn: (state: S | null) => { state: S; result: R }
+  ): Promise<R>;
+}
+
+function storeKey(action: string, key: string): string {
+  return key ? `${action}:${key}` : action;
+}
+
+/**
+ * Limiter over a synchronous store. `key` distinguishes independent
+ * allowances within an action (e.g. the post ID for likes).
+ */
+export function createLimiter<A extends string>(
+  policies: Record<A, Algorithm>,
+  store: SyncStore
+) {
+  return {
+    check(action: A, key = ""): Decision {
+      const state = store.get<State>(storeKey(action, key));
+      return peek(evaluate(policies[action], state, Date.now()).decision);
+    },
+
+    consume(action: A, key = ""): Decision {
+      const alg = policies[action];
+      const k = storeKey(action, key);
+      const { decision, next } = evaluate(alg, store.get<State>(k), Date.now());
+      if (decision.allowed) store.set(k, next, ttlFor(alg));
+      return decision;
+    },
+
+    /** Mark the allowance as used up (e.g. the server said so). */
+    exhaust(action: A, key = ""): void {
+      const alg = policies[action];
+      store.set(storeKey(action, key), exhausted(alg, Date.now()), ttlFor(alg));
+    },
+  };
+}
+
+/** Limiter over an async (shared) store; same semantics as createLimiter. */
+export function createAsyncLimiter<A extends string>(
+  policies: Record<A, Algorithm>,
+  store: AsyncStore
+) {
+  return {
+    async check(action: A, key = ""): Promise<Decision> {
+      const state = await store.get<State>(storeKey(action, key));
+      return peek(evaluate(policies[action], state, Date.now()).decision);
+    },
+
+    consume(action: A, key = ""): Promise<Decision> {
+      const alg = policies[action];
+      return store.update<State, Decision>(
+        storeKey(action, key),
+        ttlFor(alg),
+        (state) => {
+          const { decision, next } = evaluate(alg, state, Date.now());
+          return {
+            state: decision.allowed || !state ? next : state,
+            result: decision,
+          };
+        }
+      );
+    },
+  };
+}
@@ -0,0 +1,86 @@
+// ============================================================
+// Rate limit policies — one entry per throttled action
+// `device` applies per browser (localStorage on the client,
+// pseudo ID on the server). `ip` applies per hashed IP on the
+// server only and is looser: campus Wi-Fi puts many students
+// behind one address. Adding a throttled action is one entry
+// here plus a check()/consume() where it happens.
+// ============================================================
+
+import {
+  Algorithm,
+  cap,
+  fixedWindow,
+  slidingWindow,
+  tokenBucket,
+} from "./rate-limit-engine";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Shown in the like button UI, so exported on its own
+export const LIKE_LIMIT_PER_POST = 5;
+
+export interface RateLimitPolicy {
+  device: Algorithm;
+  ip?: Algorithm;
+}
+
+export const RATE_LIMITS = {
+  // 3 posts per rolling 10 minutes
+  post: {
+    device: slidingWindow(3, 10 * MINUTE),
+    ip: slidingWindow(10, 10 * MINUTE),
+  },
+  // Signed media uploads: up to four per post (MAX_POST_IMAGES)
+  upload: {
+    device: slidingWindow(12, 10 * MINUTE),
+    ip: slidingWindow(40, 10 * MINUTE),
+  },
+  comment: {
+    device: slidingWindow(5, 5 * MINUTE),
+    ip: slidingWindow(20, 5 * MINUTE),
+  },
+  // Keyed by post ID; like_post() enforces the device cap too. The
+  // network limit is a window, not a cap: a shared campus address
+  // must not lock a post for everyone behind it
+  like: {
+    device: cap(LIKE_LIMIT_PER_POST),
+    ip: slidingWindow(25, HOUR),
+  },
+  // Bursty by nature; refills one every 30s
+  share: {
+    device: tokenBucket(10, 30 * SECOND),
+    ip: tokenBucket(40, 10 * SECOND),
+  },
+  feedback: {
+    device: fixedWindow(3, DAY),
+    ip: fixedWindow(30, DAY),
+  },
+  report: {
+    device: fixedWindow(10, HOUR),
+    ip: fixedWindow(40, HOUR),
+  },
+  // Manual feed refresh; client-side only
+  fetch: {
+    device: tokenBucket(1, 3 * SECOND),
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitedAction = keyof typeof RATE_LIMITS;
+
+function pick(layer: "device" | "ip") {
+  const out = {} as Record<RateLimitedAction, Algorithm>;
+  for (const [action, policy] of Object.entries(RATE_LIMITS)) {
+    const alg = (policy as RateLimitPolicy)[layer];
+    if (alg) out[action as RateLimitedAction] = alg;
+  }
+  return out;
+}
+
+export const DEVICE_LIMITS = pick("device");
+/** Only actions with an `ip` entry; the rest aren't IP-limited. */
+export const IP_LIMITS: Partial<Record<RateLimitedAction, Algorithm>> =
+  pick("ip");
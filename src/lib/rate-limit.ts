@@ -1,19 +1,20 @@
 // ============================================================
 // Client-side rate limiting via localStorage
-// Since there is no auth, this is per-device enforcement.
+// Since there is no auth, this is per-device enforcement; the
+// API routes enforce the same policies server-side. Limits are
+// declared in src/lib/rate-limit-policies.ts — the functions
+// below are thin wrappers kept for the existing call sites.
 // ============================================================
 
+import { createLimiter, SyncStore } from "./rate-limit-engine";
+import { DEVICE_LIMITS, LIKE_LIMIT_PER_POST } from "./rate-limit-policies";
+
 const STORAGE_KEYS = {
-  LIKES: "sg_likes",       // { [postId]: number }
-  POSTS: "sg_post_times",  // number[] (timestamps)
-  LAST_FETCH: "sg_last_fetch", // number (timestamp)
+  LIMITS: "sg_rate_limits", // { [action:key]: { state, expiresAt } }
+  REACTIONS: "sg_reactions", // { [postId]: string[] }
 } as const;
 
-// ----- Configuration -----
-const LIKE_LIMIT_PER_POST = 5;
-const POST_LIMIT = 3;
-const POST_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
-const FETCH_COOLDOWN_MS = 3000; // 3 seconds
+export { LIKE_LIMIT_PER_POST };
 
 // ----- Helpers -----
 function getJSON<T>(key: string, fallback: T): T {
@@ -31,73 +32,115 @@ function setJSON(key: string, value: unknown): void {
   localStorage.setItem(key, JSON.stringify(value));
 }
 
+type StoredLimits = Record<string, { state: unknown; expiresAt: number }>;
+
+const localStore: SyncStore = {
+  get<S>(key: string): S | null {
+    const entry = getJSON<StoredLimits>(STORAGE_KEYS.LIMITS, {})[key];
+    return entry && entry.expiresAt > Date.now() ? (entry.state as S) : null;
+  },
+  set<S>(key: string, state: S, ttlMs: number): void {
+    const now = Date.now();
+    const all = getJSON<StoredLimits>(STORAGE_KEYS.LIMITS, {});
+    // Drop expired entries while we're here
+    for (const k of Object.keys(all)) {
+      if (all[k].expiresAt <= now) delete all[k];
+    }
+    all[key] = { state, expiresAt: now + ttlMs };
+    setJSON(STORAGE_KEYS.LIMITS, all);
+  },
+};
+
+/** Generic check/consume for any action in the policy table. */
+export const limiter = createLimiter(DEVICE_LIMITS, localStore);
+
 // ============================================================
-// LIKES — max 5 per post per device
+// LIKES — capped per post per device
 // ============================================================
 
-export function getLikesGiven(postId: string): number {
-  const likes: Record<string, number> = getJSON(STORAGE_KEYS.LIKES, {});
-  return likes[postId] ?? 0;
+export function remainingLikes(postId: string): number {
+  return limiter.check("like", postId).remaining;
 }
 
-export function remainingLikes(postId: string): number {
-  return Math.max(0, LIKE_LIMIT_PER_POST - getLikesGiven(postId));
+export function getLikesGiven(postId: string): number {
+  return LIKE_LIMIT_PER_POST - remainingLikes(postId);
 }
 
 export function canLikePost(postId: string): boolean {
-  return getLikesGiven(postId) < LIKE_LIMIT_PER_POST;
+  return limiter.check("like", postId).allowed;
 }
 
 /** Record a like. Returns true if allowed, false if at limit. */
 export function recordLike(postId: string): boolean {
-  if (!canLikePost(postId)) return false;
-  const likes: Record<string, number> = getJSON(STORAGE_KEYS.LIKES, {});
-  likes[postId] = (likes[postId] ?? 0) + 1;
-  setJSON(STORAGE_KEYS.LIKES, likes);
-  return true;
+  return limiter.consume("like", postId).allowed;
+}
+
+/** The server says this device is at the cap — mirror that locally. */
+export function exhaustLikes(postId: string): void {
+  limiter.exhaust("like", postId);
 }
 
 // ============================================================
-// POSTS — max 3 per 10-minute window
+// REACTIONS — one of each type per post per device
+// (deduplication rather than throttling, so not a policy)
 // ============================================================
 
-function getRecentPostTimes(): number[] {
-  const now = Date.now();
-  const times: number[] = getJSON(STORAGE_KEYS.POSTS, []);
-  // Only keep timestamps within the current window
-  return times.filter((t) => now - t < POST_WINDOW_MS);
+export function getReactionsGiven(postId: string): string[] {
+  const given: Record<string, string[]> = getJSON(STORAGE_KEYS.REACTIONS, {});
+  return given[postId] ?? [];
+}
+
+export function hasReacted(postId: string, reaction: string): boolean {
+  return getReactionsGiven(postId).includes(reaction);
 }
 
+/** Record a reaction. Returns false if this type was already given. */
+export function recordReaction(postId: string, reaction: string): boolean {
+  if (hasReacted(postId, reaction)) return false;
+  const given: Record<string, string[]> = getJSON(STORAGE_KEYS.REACTIONS, {});
+  given[postId] = [...(given[postId] ?? []), reaction];
+  setJSON(STORAGE_KEYS.REACTIONS, given);
+  return true;
+}
+
+// ============================================================
+// POSTS
+// ============================================================
+
 export function canPost(): { allowed: boolean; waitSeconds: number } {
-  const recent = getRecentPostTimes();
-  if (recent.length < POST_LIMIT) {
-    return { allowed: true, waitSeconds: 0 };
-  }
-  // The oldest relevant timestamp determines when the window opens
-  const oldest = Math.min(...recent);
-  const waitMs = POST_WINDOW_MS - (Date.now() - oldest);
-  return { allowed: false, waitSeconds: Math.ceil(waitMs / 1000) };
+  const { allowed, retryAfter } = limiter.check("post");
+  return { allowed, waitSeconds: retryAfter };
 }
 
 export function recordPost(): void {
-  const recent = getRecentPostTimes();
-  recent.push(Date.now());
-  setJSON(STORAGE_KEYS.POSTS, recent);
+  limiter.consume("post");
 }
 
 export function postsRemaining(): number {
-  return Math.max(0, POST_LIMIT - getRecentPostTimes().length);
+  return limiter.check("post").remaining;
+}
+
+// ============================================================
+// COMMENTS
+// ============================================================
+
+export function canComment(): { allowed: boolean; waitSeconds: number } {
+  const { allowed, retryAfter } = limiter.check("comment");
+  return { allowed, waitSeconds: retryAfter };
+}
+
+export function recordComment(): void {
+  limiter.consume("comment");
 }
 
 // ============================================================
-// FETCH THROTTLE — 3-second cooldown on refresh
+// FETCH THROTTLE — cooldown on manual refresh
 // ============================================================
 
 export function canFetch(): boolean {
-  const last: number = getJSON(STORAGE_KEYS.LAST_FETCH, 0);
-  return Date.now() - last >= FETCH_COOLDOWN_MS;
+  return limiter.check("fetch").allowed;
 }
 
 export function recordFetch(): void {
-  setJSON(STORAGE_KEYS.LAST_FETCH, Date.now());
+  limiter.consume("fetch");
 }
@@ -0,0 +1,66 @@
+// ============================================================
+// Emoji reactions
+// POST /api/posts/[id]/reactions runs the react_to_post()
+// database function, which allows one reaction of each type
+// per device per post.
+// ============================================================
+
+import { api } from "./api";
+import { trackEvent } from "./analytics";
+import { Post, ReactionType } from "./types";
+
+export const REACTION_TYPES: readonly ReactionType[] = [
+  "laugh",
+  "fire",
+  "sad",
+  "wow",
+  "heart",
+];
+
+export const REACTIONS: { type: ReactionType; emoji: string; label: string }[] = [
+  { type: "laugh", emoji: "😂", label: "Funny" },
+  { type: "fire", emoji: "🔥", label: "Fire" },
+  { type: "sad", emoji: "😢", label: "Sad" },
+  { type: "wow", emoji: "😮", label: "Wow" },
+  { type: "heart", emoji: "❤️", label: "Love" },
+];
+
+export type ReactionResult =
+  | { ok: true; reactions: Post["reactions"] }
+  | { ok: false; reason: "already_reacted" | "error" };
+
+/** Most-used reactions first, zero counts dropped. */
+export function topReactions(
+  counts: Post["reactions"],
+  limit: number
+): { type: ReactionType; emoji: string; count: number }[] {
+  return REACTIONS.map((r) => ({ ...r, count: counts?.[r.type] ?? 0 }))
+    .filter((r) => r.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+export function totalReactions(counts: Post["reactions"]): number {
+  return Object.values(counts ?? {}).reduce((sum, n) => sum + (n ?? 0), 0);
+}
+
+export async function reactToPost(
+  postId: string,
+  reaction: ReactionType
+): Promise<ReactionResult> {
+  const { data, error } = await api.post<{ reactions: Post["reactions"] }>(
+    `/api/posts/${postId}/reactions`,
+    { reaction }
+  );
+
+  if (error) {
+    if (error.code === "already_reacted") {
+      return { ok: false, reason: "already_reacted" };
+    }
+    console.error("Error reacting to post:", error);
+    return { ok: false, reason: "error" };
+  }
+
+  trackEvent("reaction_added", { postId, metadata: { reaction } });
+  return { ok: true, reactions: data.reactions };
+}
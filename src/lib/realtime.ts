@@ -0,0 +1,36 @@
+// ============================================================
+// Live feed updates via Supabase Realtime
+// New posts arrive as INSERTs; like counts as UPDATEs.
+// ============================================================
+
+import { supabase } from "./supabase";
+import { Post } from "./types";
+
+interface PostChangeHandlers {
+  onInsert?: (post: Post) => void;
+  onUpdate?: (post: Post) => void;
+}
+
+/**
+ * Listen for changes to the posts table. Returns an unsubscribe
+ * function suitable for a useEffect cleanup.
+ */
+export function subscribeToPosts(handlers: PostChangeHandlers): () => void {
+  const channel = supabase
+    .channel("posts-feed")
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "posts" },
+      (payload) => handlers.onInsert?.(payload.new as Post)
+    )
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "posts" },
+      (payload) => handlers.onUpdate?.(payload.new as Post)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,49 @@
+// ============================================================
+// Post reports
+// POST /api/posts/[id]/reports runs report_post(), which keeps
+// one report per device per post and auto-hides a post once it
+// collects enough open reports.
+// ============================================================
+
+import { api } from "./api";
+import { trackEvent } from "./analytics";
+import { ReportReason } from "./types";
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "personal_info", label: "Shares personal info" },
+  { value: "spam", label: "Spam" },
+  { value: "other", label: "Something else" },
+];
+
+export const REPORT_REASON_TYPES = REPORT_REASONS.map((r) => r.value);
+
+export type ReportResult =
+  | { ok: true }
+  | { ok: false; reason: "already_reported" | "rate_limited" | "error" }
+  | { ok: false; reason: "banned"; message: string };
+
+export async function reportPost(
+  postId: string,
+  reason: ReportReason,
+  details: string
+): Promise<ReportResult> {
+  const { error } = await api.post(`/api/posts/${postId}/reports`, {
+    reason,
+    details: details.trim() || null,
+  });
+
+  if (error) {
+    if (error.code === "already_reported" || error.code === "rate_limited") {
+      return { ok: false, reason: error.code };
+    }
+    if (error.code === "banned") {
+      return { ok: false, reason: "banned", message: error.message };
+    }
+    console.error("Error reporting post:", error);
+    return { ok: false, reason: "error" };
+  }
+
+  trackEvent("report_post", { postId, metadata: { reason } });
+  return { ok: true };
+}
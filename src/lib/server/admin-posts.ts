@@ -0,0 +1,61 @@
+// ============================================================
+// Admin post browser (/admin/posts)
+// Search and filter every post regardless of status, newest
+// first, with the same keyset paging as the feed.
+// ============================================================
+
+import { supabaseAdmin } from "./supabase";
+import { fetchKeysetPage, SortKey } from "./keyset";
+import { POST_COLUMNS } from "./posts";
+import { AdminPost, PostStatus } from "../types";
+
+const ADMIN_POST_KEYS: SortKey[] = [
+  { column: "created_at", ascending: false },
+  { column: "id", ascending: false },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AdminPostFilters {
+  q: string | null; // substring of the content, case-insensitive
+  status: PostStatus | null;
+  hasImage: boolean | null;
+  minLikes: number | null;
+  maxLikes: number | null;
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+}
+
+/** Escape LIKE wildcards so the search matches them literally. */
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+export function queryAdminPosts(
+  filters: AdminPostFilters,
+  cursor: string | null,
+  limit: number
+) {
+  let query = supabaseAdmin
+    .from("posts")
+    .select(`${POST_COLUMNS}, report_count, shadowbanned`);
+
+  if (filters.q) query = query.ilike("content", likePattern(filters.q));
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.hasImage === true) query = query.eq("media_type", "image");
+  if (filters.hasImage === false) query = query.is("media_url", null);
+  if (filters.minLikes !== null) query = query.gte("likes", filters.minLikes);
+  if (filters.maxLikes !== null) query = query.lte("likes", filters.maxLikes);
+  if (filters.from) {
+    query = query.gte("created_at", new Date(filters.from).toISOString());
+  }
+  if (filters.to) {
+    const end = new Date(Date.parse(filters.to) + DAY_MS);
+    query = query.lt("created_at", end.toISOString());
+  }
+
+  return fetchKeysetPage<AdminPost>(query, ADMIN_POST_KEYS, {
+    cursor,
+    limit,
+  });
+}
@@ -0,0 +1,79 @@
+// ============================================================
+// Admin gate for privileged API routes and server pages
+// Admins sign in with Supabase Auth; the session lives in
+// cookies managed by @supabase/ssr and is refreshed by
+// src/proxy.ts. Every check re-verifies the token with Supabase
+// Auth and reads the role from the admins table.
+// ============================================================
+
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import type { User } from "@supabase/supabase-js";
+import { AdminRole, AdminUser, hasRole } from "../admin";
+import { dbError, HttpError } from "./http";
+import { supabaseAdmin } from "./supabase";
+
+/** Supabase client acting as the signed-in user (anon key + cookies). */
+export async function createSessionClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => cookieStore.getAll(),
+        setAll(toSet) {
+          try {
+            for (const { name, value, options } of toSet) {
+              cookieStore.set(name, value, options);
+            }
+          } catch {
+            // Server Components can't set cookies; the proxy
+            // refreshes the session on the next request instead
+          }
+        },
+      },
+    }
+  );
+}
+
+async function getSessionUser(): Promise<User | null> {
+  const supabase = await createSessionClient();
+  // getUser() asks Supabase Auth; getSession() would trust the cookie
+  const { data } = await supabase.auth.getUser();
+  return data.user;
+}
+
+async function getRole(userId: string): Promise<AdminRole | null> {
+  const { data, error } = await supabaseAdmin
+    .from("admins")
+    .select("role")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw dbError(error, "Error fetching admin role");
+  return (data?.role as AdminRole | undefined) ?? null;
+}
+
+/**
+ * The signed-in admin. Throws 401 when signed out and 403 when
+ * the user isn't an admin or their role is below `required`.
+ */
+export async function requireAdmin(
+  required: AdminRole = "viewer"
+): Promise<AdminUser> {
+  const user = await getSessionUser();
+  if (!user) throw new HttpError(401, "unauthorized", "Sign in required");
+
+  const role = await getRole(user.id);
+  if (!role || !hasRole(role, required)) {
+    throw new HttpError(
+      403,
+      "forbidden",
+      role ? `Requires the ${required} role` : "Admin access required",
+      { required }
+    );
+  }
+  return { id: user.id, email: user.email ?? null, role };
+}
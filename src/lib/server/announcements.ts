@@ -0,0 +1,96 @@
+// ============================================================
+// Announcement queries and input parsing (see
+// src/lib/announcements.ts)
+// ============================================================
+
+import { supabaseAdmin } from "./supabase";
+import { HttpError } from "./http";
+import { oneOf, text, timestamp } from "./validate";
+import {
+  ANNOUNCEMENT_SEVERITIES,
+  Announcement,
+  AnnouncementSeverity,
+  MAX_BODY_CHARS,
+  MAX_TITLE_CHARS,
+} from "../announcements";
+
+export const ANNOUNCEMENT_COLUMNS =
+  "id, title, body, severity, starts_at, ends_at, created_at, updated_at";
+
+const SEVERITY_RANK: Record<AnnouncementSeverity, number> = {
+  critical: 0,
+  warning: 1,
+  info: 2,
+};
+
+/** Announcements live right now, most severe first, then newest. */
+export async function queryActiveAnnouncements() {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from("announcements")
+    .select(ANNOUNCEMENT_COLUMNS)
+    .lte("starts_at", now)
+    .or(`ends_at.is.null,ends_at.gt.${now}`)
+    .order("starts_at", { ascending: false });
+
+  if (error) return { data: null, error };
+  const sorted = (data as Announcement[]).sort(
+    (a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]
+  );
+  return { data: sorted, error: null };
+}
+
+type AnnouncementInput = Pick<
+  Announcement,
+  "title" | "body" | "severity" | "starts_at" | "ends_at"
+>;
+
+/**
+ * Validate an admin's announcement fields. When editing, pass the
+ * stored row as `current`: only the fields present are checked and
+ * the schedule is validated against the merged result.
+ */
+export function parseAnnouncement(
+  body: Record<string, unknown>,
+  current?: Announcement
+): Partial<AnnouncementInput> {
+  const input: Partial<AnnouncementInput> = {};
+  const has = (key: string) => !current || body[key] !== undefined;
+
+  if (has("title")) {
+    input.title = text(body.title, "title", { max: MAX_TITLE_CHARS });
+  }
+  if (has("body")) {
+    input.body = text(body.body ?? "", "body", {
+      min: 0,
+      max: MAX_BODY_CHARS,
+    });
+  }
+  if (has("severity")) {
+    input.severity = oneOf(
+      body.severity ?? "info",
+      "severity",
+      ANNOUNCEMENT_SEVERITIES
+    );
+  }
+  // Omitted start on create = now (the column default)
+  if (body.starts_at !== undefined && body.starts_at !== null) {
+    input.starts_at = timestamp(body.starts_at, "starts_at");
+  }
+  if (has("ends_at")) {
+    input.ends_at =
+      body.ends_at == null ? null : timestamp(body.ends_at, "ends_at");
+  }
+
+  const startsAt = input.starts_at ?? current?.starts_at ?? Date.now();
+  const endsAt = input.ends_at !== undefined ? input.ends_at : current?.ends_at;
+  if (endsAt && Date.parse(endsAt) <= new Date(startsAt).getTime()) {
+    throw new HttpError(
+      400,
+      "invalid_request",
+      "ends_at: must be after starts_at",
+      { field: "ends_at" }
+    );
+  }
+  return input;
+}
@@ -0,0 +1,80 @@
+// ============================================================
+// Admin audit log writes and queries (see src/lib/audit.ts)
+// Routes record an action after it succeeds, with snapshots of
+// the target taken just before and after.
+// ============================================================
+
+import { supabaseAdmin } from "./supabase";
+import { fetchKeysetPage, SortKey } from "./keyset";
+import { AdminUser } from "../admin";
+import { AuditAction, AuditEntry, AuditTargetType } from "../audit";
+
+const AUDIT_COLUMNS =
+  "id, actor_id, actor_email, actor_role, action, target_type, target_id, before, after, created_at";
+
+const AUDIT_KEYS: SortKey[] = [
+  { column: "created_at", ascending: false },
+  { column: "id", ascending: false },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuditRecord {
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditFilters {
+  actor: string | null; // email, exact match
+  action: AuditAction | null;
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Append entries for actions `admin` has just performed. The
+ * action already happened, so a failed write is logged rather
+ * than turned into an error response the admin might retry.
+ */
+export async function recordAudit(
+  admin: AdminUser,
+  records: AuditRecord[]
+): Promise<void> {
+  if (records.length === 0) return;
+
+  const { error } = await supabaseAdmin.from("admin_audit_log").insert(
+    records.map((record) => ({
+      ...record,
+      actor_id: admin.id,
+      actor_email: admin.email,
+      actor_role: admin.role,
+    }))
+  );
+  if (error) {
+    console.error("[audit] Error recording admin action:", error, records);
+  }
+}
+
+/** One page of the audit log, newest first. */
+export function queryAuditLog(
+  filters: AuditFilters,
+  cursor: string | null,
+  limit: number
+) {
+  let query = supabaseAdmin.from("admin_audit_log").select(AUDIT_COLUMNS);
+
+  if (filters.actor) query = query.eq("actor_email", filters.actor);
+  if (filters.action) query = query.eq("action", filters.action);
+  if (filters.from) {
+    query = query.gte("created_at", new Date(filters.from).toISOString());
+  }
+  if (filters.to) {
+    const end = new Date(Date.parse(filters.to) + DAY_MS);
+    query = query.lt("created_at", end.toISOString());
+  }
+
+  return fetchKeysetPage<AuditEntry>(query, AUDIT_KEYS, { cursor, limit });
+}
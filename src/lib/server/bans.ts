@@ -0,0 +1,80 @@
+// ============================================================
+// Ban enforcement for API routes (see src/lib/bans.ts)
+// A ban matches the caller's pseudo ID or, when the moderator
+// included it, the hashed IP the offending post came from.
+// ============================================================
+
+import { Ban, BanKind, isBanActive } from "../bans";
+import { HttpError } from "./http";
+import { getIpHash, getPseudoId } from "./identity";
+import { supabaseAdmin } from "./supabase";
+
+export const BAN_COLUMNS =
+  "id, kind, user_pseudo_id, ip_hash, reason, post_id, expires_at, created_at, revoked_at";
+
+/**
+ * The caller's strongest active ban, or null. A full ban wins over
+ * a shadowban when both apply.
+ */
+export async function getActiveBan(request: Request): Promise<Ban | null> {
+  const { data, error } = await supabaseAdmin
+    .from("bans")
+    .select(BAN_COLUMNS)
+    .is("revoked_at", null)
+    .or(
+      `user_pseudo_id.eq.${getPseudoId(request)},ip_hash.eq.${getIpHash(request)}`
+    );
+
+  if (error) {
+    // Fail open: a database hiccup shouldn't take posting down
+    console.error("Error fetching bans:", error);
+    return null;
+  }
+  const active = (data as Ban[]).filter((ban) => isBanActive(ban));
+  return active.find((ban) => ban.kind === "ban") ?? active[0] ?? null;
+}
+
+function formatExpiry(expiresAt: string | null): string {
+  if (!expiresAt) return "until further notice";
+  return `until ${new Date(expiresAt).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  })}`;
+}
+
+/**
+ * Throw a 403 explaining the ban if the caller is banned. Returns
+ * the kind of ban still in force otherwise, so routes can treat
+ * shadowbanned callers differently without telling them.
+ */
+export async function requireNotBanned(
+  request: Request
+): Promise<Exclude<BanKind, "ban"> | null> {
+  const ban = await getActiveBan(request);
+  if (!ban) return null;
+  if (ban.kind === "shadowban") return "shadowban";
+
+  throw new HttpError(
+    403,
+    "banned",
+    `This device has been banned ${formatExpiry(ban.expires_at)}. Reason: ${ban.reason}`,
+    { reason: ban.reason, expires_at: ban.expires_at }
+  );
+}
+
+/**
+ * Recompute which posts and comments are hidden after a shadowban
+ * is issued or revoked (refresh_shadowbans() in
+ * 20260326000000_refresh_shadowbans.sql). Only the banned device's
+ * own content is hidden after the fact, never its network's.
+ */
+export function refreshShadowbans(
+  ban: Pick<Ban, "user_pseudo_id" | "ip_hash">
+) {
+  return supabaseAdmin.rpc("refresh_shadowbans", {
+    p_user_pseudo_id: ban.user_pseudo_id,
+    p_ip_hash: ban.ip_hash,
+  });
+}
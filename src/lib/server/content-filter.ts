@@ -0,0 +1,232 @@
+// ============================================================
+// Pre-publication content filter
+// Runs every rule in src/lib/server/content-rules.ts over a
+// post or comment. The strictest matching action wins:
+//   reject > review > mask > allow
+// Masks are applied to the returned content for mask *and*
+// review results, so a held post is already clean if approved.
+// ============================================================
+
+import {
+  BLOCKLIST,
+  DETECTOR_ACTIONS,
+  DetectorId,
+  FilterAction,
+  GIVEN_NAMES,
+} from "./content-rules";
+
+export interface FilterHit {
+  rule: string; // detector ID or blocklist group ID
+  action: FilterAction;
+}
+
+export interface FilterResult {
+  action: FilterAction | "allow";
+  content: string;
+  hits: FilterHit[];
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const SEVERITY: Record<FilterResult["action"], number> = {
+  allow: 0,
+  mask: 1,
+  review: 2,
+  reject: 3,
+};
+
+// Shown to authors of rejected posts
+const RULE_LABELS: Record<string, string> = {
+  slur: "slurs",
+  threat: "threats",
+  profanity: "profanity",
+  phone: "phone numbers",
+  email: "email addresses",
+  dni_nie: "DNI/NIE numbers",
+  full_name: "people's full names",
+};
+
+export function describeRules(hits: FilterHit[]): string {
+  const labels = [...new Set(hits.map((h) => RULE_LABELS[h.rule] ?? h.rule))];
+  return labels.join(", ");
+}
+
+// ============================================================
+// Normalisation (blocklist only)
+// Keeps a map back to the original text so matches can be
+// masked in place.
+// ============================================================
+
+const LEET: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+// Dropped inside words: "p.u.t.a", "f-u-c-k", "m*erda"
+const SEPARATORS = new Set([".", "-", "_", "*", "'", "’"]);
+
+interface Normalised {
+  text: string;
+  starts: number[]; // original index where each char begins
+  ends: number[]; // original index just past each char
+}
+
+function normalise(input: string): Normalised {
+  let text = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    // NFD splits "á" into "a" + accent; keep the base letter
+    let ch = input[i].normalize("NFD")[0].toLowerCase();
+    ch = LEET[ch] ?? ch;
+    if (SEPARATORS.has(ch)) continue;
+    if (/\s/.test(ch)) ch = " ";
+
+    // Collapse repeats ("puuuta", "fuuuck", double spaces)
+    if (text.endsWith(ch)) {
+      ends[ends.length - 1] = i + 1;
+      continue;
+    }
+    text += ch;
+    starts.push(i);
+    ends.push(i + 1);
+  }
+  return { text, starts, ends };
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// One regex per group, built once: whole words, optional plural
+const BLOCKLIST_PATTERNS = BLOCKLIST.map((group) => ({
+  ...group,
+  pattern: new RegExp(
+    `(?<![a-z0-9])(?:${group.terms
+      .map((t) => escapeRegExp(normalise(t).text))
+      .join("|")})(?:e?s)?(?![a-z0-9])`,
+    "g"
+  ),
+}));
+
+// ============================================================
+// Detectors (run on the original text)
+// ============================================================
+
+const DNI_LETTERS = "TRWAGMYFPDXBNJZSQVHLCKE";
+
+function validIdLetter(digits: string, letter: string): boolean {
+  return DNI_LETTERS[Number(digits) % 23] === letter.toUpperCase();
+}
+
+const GIVEN_NAME_SET = new Set(GIVEN_NAMES);
+
+const DETECTORS: Record<DetectorId, (text: string) => Span[]> = {
+  email: (text) =>
+    spans(text, /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g),
+
+  // Spanish numbers (optionally +34) and other international ones,
+  // tolerating spaces, dots and dashes between digits
+  phone: (text) =>
+    spans(
+      text,
+      /(?<![\d+])(?:(?:\+|00)34[\s.-]?)?[6789](?:[\s.-]?\d){8}(?!\d)|(?<![\d+])(?:\+|00)\d{1,3}(?:[\s.-]?\d){7,12}(?!\d)/g
+    ),
+
+  // Only numbers whose control letter checks out
+  dni_nie: (text) => [
+    ...spans(
+      text,
+      /(?<![\dA-Za-z])(\d{8})[\s-]?([A-Za-z])(?![A-Za-z\d])/g,
+      (m) => validIdLetter(m[1], m[2])
+    ),
+    ...spans(
+      text,
+      /(?<![\dA-Za-z])([XYZxyz])[\s-]?(\d{7})[\s-]?([A-Za-z])(?![A-Za-z\d])/g,
+      (m) => validIdLetter("XYZ".indexOf(m[1].toUpperCase()) + m[2], m[3])
+    ),
+  ],
+
+  // "Lucía Fernández", "Pablo Martín Ruiz". Anchored on the given
+  // name, so a capitalised word before it doesn't hide the match:
+  // "Hola Lucía Fernández", "Ojo Lucía Fernández es una chivata"
+  full_name: (text) =>
+    spans(text, /(?<!\p{L})\p{Lu}\p{Ll}+(?!\p{L})/gu, (m) =>
+      GIVEN_NAME_SET.has(normalise(m[0]).text)
+    ).flatMap((given) => {
+      const surnames = text
+        .slice(given.end)
+        .match(/^(?:\s+\p{Lu}\p{Ll}+){1,2}(?!\p{L})/u);
+      return surnames
+        ? [{ start: given.start, end: given.end + surnames[0].length }]
+        : [];
+    }),
+};
+
+function spans(
+  text: string,
+  pattern: RegExp,
+  accept: (match: RegExpMatchArray) => boolean = () => true
+): Span[] {
+  return [...text.matchAll(pattern)]
+    .filter(accept)
+    .map((m) => ({ start: m.index!, end: m.index! + m[0].length }));
+}
+
+// ============================================================
+// Pipeline
+// ============================================================
+
+/** Replace every non-space character inside `spans` with "*". */
+function mask(text: string, toMask: Span[]): string {
+  let out = "";
+  let i = 0;
+  for (const span of [...toMask].sort((a, b) => a.start - b.start)) {
+    if (span.end <= i) continue; // overlaps one already masked
+    const start = Math.max(span.start, i);
+    out +=
+      text.slice(i, start) + text.slice(start, span.end).replace(/\S/g, "*");
+    i = span.end;
+  }
+  return out + text.slice(i);
+}
+
+export function filterContent(content: string): FilterResult {
+  const hits: FilterHit[] = [];
+  const masks: Span[] = [];
+
+  const record = (rule: string, action: FilterAction, found: Span[]) => {
+    if (found.length === 0) return;
+    hits.push({ rule, action });
+    if (action === "mask") masks.push(...found);
+  };
+
+  const normalised = normalise(content);
+  for (const group of BLOCKLIST_PATTERNS) {
+    const found = [...normalised.text.matchAll(group.pattern)].map((m) => ({
+      start: normalised.starts[m.index!],
+      end: normalised.ends[m.index! + m[0].length - 1],
+    }));
+    record(group.id, group.action, found);
+  }
+
+  for (const [id, detect] of Object.entries(DETECTORS)) {
+    record(id, DETECTOR_ACTIONS[id as DetectorId], detect(content));
+  }
+
+  const action = hits.reduce<FilterResult["action"]>(
+    (worst, hit) =>
+      SEVERITY[hit.action] > SEVERITY[worst] ? hit.action : worst,
+    "allow"
+  );
+
+  return { action, content: mask(content, masks), hits };
+}
@@ -0,0 +1,110 @@
+// ============================================================
+// Content filter configuration
+// What each rule does when it matches:
+//   reject — refuse the post with a 422 naming the rule
+//   review — hold as pending; it waits in /admin/moderation
+//   mask   — publish with the match replaced by asterisks
+// Blocklist terms are matched after normalisation (lowercase,
+// accents and leetspeak folded, repeated letters collapsed), so
+// list each term once in its plain form.
+// ============================================================
+
+export type FilterAction = "reject" | "review" | "mask";
+
+export type DetectorId = "phone" | "email" | "dni_nie" | "full_name";
+
+export const DETECTOR_ACTIONS: Record<DetectorId, FilterAction> = {
+  phone: "mask",
+  email: "mask",
+  dni_nie: "reject",
+  full_name: "review",
+};
+
+export interface BlocklistGroup {
+  id: string;
+  action: FilterAction;
+  terms: string[];
+}
+
+export const BLOCKLIST: BlocklistGroup[] = [
+  {
+    id: "slur",
+    action: "reject",
+    terms: [
+      // es
+      "maricon",
+      "sudaca",
+      "panchito",
+      "moro de mierda",
+      "negrata",
+      // en
+      "faggot",
+      "nigger",
+      "nigga",
+      "retard",
+      "tranny",
+    ],
+  },
+  {
+    id: "threat",
+    action: "review",
+    terms: [
+      // es
+      "te voy a matar",
+      "os voy a matar",
+      "suicidate",
+      "muerete",
+      "ojala te mueras",
+      "te voy a pegar",
+      // en
+      "kill yourself",
+      "kys",
+      "i will kill you",
+      "im going to kill",
+    ],
+  },
+  {
+    id: "profanity",
+    action: "mask",
+    terms: [
+      // es
+      "puta",
+      "puto",
+      "gilipollas",
+      "cabron",
+      "hijo de puta",
+      "zorra",
+      "mierda",
+      "subnormal",
+      // en
+      "fuck",
+      "fucking",
+      "shit",
+      "bitch",
+      "asshole",
+      "cunt",
+      "whore",
+    ],
+  },
+];
+
+/**
+ * Common given names; a full-name match is one of these followed
+ * by a capitalised word ("Lucía Fernández"). Matching is accent-
+ * and case-insensitive on the given name.
+ */
+export const GIVEN_NAMES: string[] = [
+  "adrian", "alba", "alberto", "alejandra", "alejandro", "alicia",
+  "alvaro", "ana", "andrea", "andres", "angel", "angela", "antonio",
+  "beatriz", "blanca", "carla", "carlos", "carmen", "carolina",
+  "claudia", "cristina", "daniel", "daniela", "david", "diego",
+  "eduardo", "elena", "emma", "enrique", "fernando", "francisco",
+  "gabriel", "gonzalo", "guillermo", "hugo", "ignacio", "ines",
+  "irene", "isabel", "ivan", "jaime", "javier", "jesus", "jorge",
+  "jose", "juan", "julia", "laura", "leire", "lucia", "luis", "manuel",
+  "marco", "marcos", "maria", "marina", "marta", "martin", "mateo",
+  "miguel", "monica", "nerea", "nicolas", "noelia", "nuria", "oscar",
+  "pablo", "paula", "pedro", "pilar", "rafael", "raquel", "ricardo",
+  "rocio", "rodrigo", "ruben", "sara", "sergio", "silvia", "sofia",
+  "teresa", "tomas", "valeria", "victor", "yolanda",
+];
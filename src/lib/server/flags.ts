@@ -0,0 +1,68 @@
+// ============================================================
+// Feature flag loading and enforcement for API routes
+// Rows are cached briefly per server instance; an admin change
+// reaches other instances within FLAG_CACHE_MS.
+// ============================================================
+
+import {
+  DEFAULT_FLAGS,
+  FeatureFlag,
+  FlagKey,
+  FlagStates,
+  evaluateFlag,
+} from "../flags";
+import { HttpError } from "./http";
+import { getPseudoId } from "./identity";
+import { supabaseAdmin } from "./supabase";
+
+export const FLAG_COLUMNS =
+  "key, enabled, rollout_percent, message, updated_at";
+
+const FLAG_CACHE_MS = 15 * 1000;
+
+let cache: { flags: FeatureFlag[]; loadedAt: number } | null = null;
+
+export async function loadFlags(): Promise<FeatureFlag[]> {
+  if (cache && Date.now() - cache.loadedAt < FLAG_CACHE_MS) return cache.flags;
+
+  const { data, error } = await supabaseAdmin
+    .from("feature_flags")
+    .select(FLAG_COLUMNS);
+
+  if (error) {
+    // Fall back to the last known flags (or the defaults)
+    console.error("Error fetching feature flags:", error);
+    return cache?.flags ?? [];
+  }
+  cache = { flags: data as FeatureFlag[], loadedAt: Date.now() };
+  return cache.flags;
+}
+
+/** Call after an admin edit so this instance sees it immediately. */
+export function invalidateFlags(): void {
+  cache = null;
+}
+
+export async function getFlagsFor(userId: string): Promise<FlagStates> {
+  const states: FlagStates = { ...DEFAULT_FLAGS };
+  for (const flag of await loadFlags()) {
+    if (flag.key in states) states[flag.key] = evaluateFlag(flag, userId);
+  }
+  return states;
+}
+
+/** Throw a 403 carrying the flag's message unless `key` is on for the caller. */
+export async function requireFlag(
+  request: Request,
+  key: FlagKey
+): Promise<void> {
+  const flag = (await getFlagsFor(getPseudoId(request)))[key];
+  if (!flag.enabled) {
+    throw new HttpError(
+      403,
+      "feature_disabled",
+      flag.message ?? "This feature is currently turned off",
+      { flag: key }
+    );
+  }
+}
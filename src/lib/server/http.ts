@@ -0,0 +1,77 @@
+// ============================================================
+// Route handler helpers
+// Errors are thrown as HttpError and serialised by handle() as
+//   { error: "<code>", message: "...", ...details }
+// which the client wrapper (src/lib/api.ts) turns into ApiError.
+// ============================================================
+
+import { NextResponse } from "next/server";
+import type { PostgrestError } from "@supabase/supabase-js";
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message?: string,
+    public details?: Record<string, unknown>,
+    public headers?: Record<string, string>
+  ) {
+    super(message ?? code);
+    this.name = "HttpError";
+  }
+}
+
+export function json<T>(data: T, init?: ResponseInit): NextResponse {
+  return NextResponse.json(data, init);
+}
+
+/**
+ * Run a route body, converting thrown errors into JSON responses.
+ */
+export async function handle(
+  fn: () => Promise<Response>
+): Promise<Response> {
+  try {
+    return await fn();
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return NextResponse.json(
+        { error: err.code, message: err.message, ...err.details },
+        { status: err.status, headers: err.headers }
+      );
+    }
+    console.error("[api] Unhandled error:", err);
+    return NextResponse.json(
+      { error: "internal_error", message: "Something went wrong" },
+      { status: 500 }
+    );
+  }
+}
+
+// Exceptions raised by our database functions → HTTP statuses
+const DB_ERRORS: Record<string, number> = {
+  post_not_found: 404,
+  comment_not_found: 404,
+  invalid_user_pseudo_id: 400,
+  invalid_content: 400,
+  invalid_reaction: 400,
+  invalid_reason: 400,
+  invalid_action: 400,
+  already_reacted: 409,
+  already_reported: 409,
+  like_limit_reached: 429,
+};
+
+/**
+ * Map a Postgres/PostgREST error to an HttpError. Known exceptions
+ * from our functions keep their name as the error code.
+ */
+export function dbError(error: PostgrestError, context: string): HttpError {
+  const known = Object.keys(DB_ERRORS).find((code) =>
+    error.message.includes(code)
+  );
+  if (known) return new HttpError(DB_ERRORS[known], known);
+
+  console.error(`[api] ${context}:`, error);
+  return new HttpError(500, "database_error", "Something went wrong");
+}
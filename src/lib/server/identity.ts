@@ -0,0 +1,52 @@
+// ============================================================
+// Who is calling? Anonymous devices identify themselves with
+// the pseudo ID from src/lib/identity.ts, sent as a header by
+// the client API wrapper. IPs are only ever stored hashed.
+// ============================================================
+
+import { createHash } from "crypto";
+import { HttpError } from "./http";
+
+export const PSEUDO_ID_HEADER = "x-pseudo-id";
+
+const PSEUDO_ID_RE = /^[A-Za-z0-9-]{1,64}$/;
+
+/** The caller's pseudo ID, or null when missing or malformed. */
+export function peekPseudoId(request: Request): string | null {
+  const id = request.headers.get(PSEUDO_ID_HEADER);
+  return id && PSEUDO_ID_RE.test(id) ? id : null;
+}
+
+/** The caller's pseudo ID; throws 400 when missing or malformed. */
+export function getPseudoId(request: Request): string {
+  const id = peekPseudoId(request);
+  if (!id) {
+    throw new HttpError(400, "missing_pseudo_id", "Missing device ID");
+  }
+  return id;
+}
+
+/**
+ * The caller's IP as seen by our proxy. Clients can send their own
+ * X-Forwarded-For, so only the hop the proxy appends (the last one)
+ * or the X-Real-IP it sets can be trusted; Vercel sets both.
+ */
+function clientIp(request: Request): string {
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+  const forwarded = request.headers.get("x-forwarded-for");
+  return forwarded?.split(",").at(-1)?.trim() || "unknown";
+}
+
+/**
+ * Salted hash of the caller's IP. Throws when IP_HASH_SALT isn't
+ * set: an unsalted hash of an IPv4 address is trivially reversed.
+ */
+export function getIpHash(request: Request): string {
+  const salt = process.env.IP_HASH_SALT;
+  if (!salt) throw new Error("IP_HASH_SALT is not set");
+  return createHash("sha256")
+    .update(`${salt}:${clientIp(request)}`)
+    .digest("hex")
+    .slice(0, 32);
+}
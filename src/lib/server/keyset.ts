@@ -0,0 +1,121 @@
+// ============================================================
+// Keyset (cursor) pagination for PostgREST queries
+// Pages continue from the last row seen instead of an offset,
+// so rows inserted while someone scrolls never shift the
+// window (no duplicates, no skipped rows).
+// ============================================================
+
+import type { PostgrestError } from "@supabase/supabase-js";
+import { Page } from "../feed";
+import { HttpError } from "./http";
+
+export interface SortKey {
+  column: string;
+  ascending: boolean;
+}
+
+type CursorValue = string | number | boolean | null;
+
+/**
+ * The subset of the PostgREST builder that keyset pagination needs.
+ */
+interface KeysetQuery<Row>
+  extends PromiseLike<{ data: Row[] | null; error: PostgrestError | null }> {
+  or(filters: string): this;
+  order(column: string, options?: { ascending?: boolean }): this;
+  limit(count: number): this;
+}
+
+/** Base64url-encoded JSON so callers treat the cursor as opaque. */
+export function encodeCursor(values: CursorValue[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+function isSortValue(value: unknown): value is string | number | boolean {
+  return (
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && Number.isFinite(value))
+  );
+}
+
+/**
+ * The sort values in a cursor from this endpoint. Throws a 400
+ * unless it holds one string, number or boolean per sort key.
+ */
+export function decodeCursor(cursor: string, keys: SortKey[]): CursorValue[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    values = null;
+  }
+  if (
+    !Array.isArray(values) ||
+    values.length !== keys.length ||
+    !values.every(isSortValue)
+  ) {
+    throw new HttpError(400, "invalid_request", "cursor: invalid");
+  }
+  return values;
+}
+
+/** Quote a value for a PostgREST filter (timestamps contain ':' and '+'). */
+function filterValue(value: CursorValue): string {
+  if (typeof value === "string") {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  }
+  return String(value);
+}
+
+/**
+ * PostgREST `or` filter selecting rows strictly after `values` in
+ * `keys` order, e.g. for (created_at desc, id desc):
+ *   created_at.lt.X,and(created_at.eq.X,id.lt.Y)
+ */
+function keysetFilter(keys: SortKey[], values: CursorValue[]): string {
+  const branches = keys.map((key, i) => {
+    const equal = keys
+      .slice(0, i)
+      .map((k, j) => `${k.column}.eq.${filterValue(values[j])}`);
+    const op = key.ascending ? "gt" : "lt";
+    const after = `${key.column}.${op}.${filterValue(values[i])}`;
+    return equal.length ? `and(${[...equal, after].join(",")})` : after;
+  });
+  return branches.join(",");
+}
+
+/**
+ * Fetch one page of `query` ordered by `keys`. The last key must be
+ * unique (normally `id`) so the cursor identifies exactly one row.
+ * Throws a 400 HttpError for a malformed cursor.
+ */
+export async function fetchKeysetPage<Row extends object>(
+  query: KeysetQuery<Row>,
+  keys: SortKey[],
+  options: { cursor?: string | null; limit: number }
+): Promise<{ data: Page<Row> | null; error: PostgrestError | null }> {
+  if (options.cursor) {
+    query = query.or(keysetFilter(keys, decodeCursor(options.cursor, keys)));
+  }
+  for (const key of keys) {
+    query = query.order(key.column, { ascending: key.ascending });
+  }
+
+  // One extra row tells us whether another page exists
+  const { data, error } = await query.limit(options.limit + 1);
+  if (error || !data) return { data: null, error };
+
+  const hasMore = data.length > options.limit;
+  const items = hasMore ? data.slice(0, options.limit) : data;
+  const last = items[items.length - 1] as Record<string, CursorValue> | undefined;
+
+  return {
+    data: {
+      items,
+      cursor: last ? encodeCursor(keys.map((k) => last[k.column])) : null,
+      hasMore,
+    },
+    error: null,
+  };
+}
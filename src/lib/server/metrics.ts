@@ -0,0 +1,49 @@
+// ============================================================
+// Metrics data loading (admin + public dashboards)
+// ============================================================
+
+import { supabaseAdmin } from "./supabase";
+import {
+  AnalyticsSummary,
+  Metrics,
+  RawEvent,
+  RawFeedback,
+  RawPost,
+  computeMetrics,
+  computeSummary,
+} from "../metrics";
+
+export async function loadMetrics(): Promise<Metrics> {
+  const [eventsRes, feedbackRes, postsRes] = await Promise.all([
+    supabaseAdmin
+      .from("analytics_events")
+      .select("id, event_name, user_pseudo_id, created_at")
+      .order("created_at", { ascending: false })
+      .limit(10000),
+    supabaseAdmin.from("feedback").select("rating"),
+    supabaseAdmin.from("posts").select("likes, reactions"),
+  ]);
+
+  const events = (eventsRes.data ?? []) as RawEvent[];
+  const feedback = (feedbackRes.data ?? []) as RawFeedback[];
+  const posts = (postsRes.data ?? []) as RawPost[];
+
+  return computeMetrics(events, feedback, posts);
+}
+
+export async function loadSummary(): Promise<AnalyticsSummary> {
+  const [postsRes, feedbackRes, sharesRes] = await Promise.all([
+    supabaseAdmin.from("posts").select("likes"),
+    supabaseAdmin.from("feedback").select("rating"),
+    supabaseAdmin
+      .from("analytics_events")
+      .select("id", { count: "exact", head: true })
+      .eq("event_name", "share_post"),
+  ]);
+
+  return computeSummary(
+    (postsRes.data ?? []) as Pick<RawPost, "likes">[],
+    (feedbackRes.data ?? []) as RawFeedback[],
+    sharesRes.count ?? 0
+  );
+}
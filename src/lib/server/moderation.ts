@@ -0,0 +1,103 @@
+// ============================================================
+// Moderation queue for /admin/moderation
+//   pending — new posts awaiting approval, oldest first
+//   queue   — hidden posts and posts with open reports
+//   removed — posts taken down by a moderator
+// plus comments held by the content filter, oldest first.
+// ============================================================
+
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabaseAdmin } from "./supabase";
+import { COMMENT_COLUMNS, POST_COLUMNS } from "./posts";
+import { dbError } from "./http";
+import { ModerationItem, PostStatus, ReportReason } from "../types";
+
+export type ModerationView = "pending" | "queue" | "removed";
+export const MODERATION_VIEWS: readonly ModerationView[] = [
+  "pending",
+  "queue",
+  "removed",
+];
+
+const QUEUE_LIMIT = 100;
+
+export async function queryModerationQueue(
+  view: ModerationView
+): Promise<{ data: ModerationItem[] | null; error: PostgrestError | null }> {
+  let query = supabaseAdmin
+    .from("posts")
+    .select(`${POST_COLUMNS}, report_count, filter_flags`);
+
+  if (view === "pending") {
+    query = query.eq("status", "pending").order("created_at");
+  } else if (view === "removed") {
+    query = query
+      .eq("status", "removed")
+      .order("created_at", { ascending: false });
+  } else {
+    query = query
+      .or("status.eq.hidden,and(status.eq.published,report_count.gt.0)")
+      .order("report_count", { ascending: false })
+      .order("created_at", { ascending: false });
+  }
+
+  const { data: posts, error } = await query.limit(QUEUE_LIMIT);
+  if (error || !posts) return { data: null, error };
+  if (posts.length === 0) return { data: [], error: null };
+
+  const { data: reports, error: reportsError } = await supabaseAdmin
+    .from("reports")
+    .select("post_id, reason, details")
+    .in(
+      "post_id",
+      posts.map((p) => p.id)
+    )
+    .is("resolved_at", null);
+  if (reportsError) return { data: null, error: reportsError };
+
+  const items = new Map<string, ModerationItem>(
+    posts.map((post) => [
+      post.id,
+      { post: post as ModerationItem["post"], reasons: {}, details: [] },
+    ])
+  );
+  for (const report of reports ?? []) {
+    const item = items.get(report.post_id);
+    if (!item) continue;
+    const reason = report.reason as ReportReason;
+    item.reasons[reason] = (item.reasons[reason] ?? 0) + 1;
+    if (report.details) item.details.push(report.details);
+  }
+
+  return { data: [...items.values()], error: null };
+}
+
+/** Comments held by the content filter, awaiting approval. */
+export function queryHeldComments() {
+  return supabaseAdmin
+    .from("comments")
+    .select(`${COMMENT_COLUMNS}, filter_flags`)
+    .eq("status", "pending")
+    .order("created_at")
+    .limit(QUEUE_LIMIT);
+}
+
+export interface ModerationState {
+  status: PostStatus;
+  report_count: number;
+}
+
+/** Current moderation state of each post, for audit snapshots. */
+export async function getModerationStates(
+  postIds: string[]
+): Promise<Map<string, ModerationState>> {
+  const { data, error } = await supabaseAdmin
+    .from("posts")
+    .select("id, status, report_count")
+    .in("id", postIds);
+
+  if (error) throw dbError(error, "Error fetching moderation state");
+  return new Map(
+    data.map(({ id, ...state }) => [id, state as ModerationState])
+  );
+}
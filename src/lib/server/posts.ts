@@ -0,0 +1,179 @@
+// ============================================================
+// Post queries and writes used by the API routes and
+// server-rendered pages.
+// ============================================================
+
+import { supabaseAdmin } from "./supabase";
+import { fetchKeysetPage, SortKey } from "./keyset";
+import { isUuid } from "./validate";
+import { dbError, HttpError } from "./http";
+import { FeedMode, FeedSort, TopPeriod } from "../feed";
+import { Comment, Post } from "../types";
+
+// Everything the client may see. Keep private columns out.
+export const POST_COLUMNS =
+  "id, content, media_url, media_type, media_width, media_height, media_placeholder, media_poster_url, likes, hot_score, comment_count, reactions, status, pinned_at, featured, created_at, media:post_media(position, url, width, height, placeholder)";
+
+export const COMMENT_COLUMNS =
+  "id, post_id, content, anon_number, status, created_at";
+
+const PERIOD_MS: Record<Exclude<TopPeriod, "all">, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// hot_score and likes change as likes arrive, so in hot and top a
+// post can cross the cursor between pages and come round again;
+// the home feed dedupes every page by id (fetchNextPage in
+// src/app/page.tsx)
+const FEED_KEYS: Record<FeedSort, SortKey[]> = {
+  hot: [
+    { column: "hot_score", ascending: false },
+    { column: "id", ascending: false },
+  ],
+  top: [
+    { column: "likes", ascending: false },
+    { column: "created_at", ascending: false },
+    { column: "id", ascending: false },
+  ],
+  new: [
+    { column: "created_at", ascending: false },
+    { column: "id", ascending: false },
+  ],
+};
+
+const THREAD_KEYS: SortKey[] = [
+  { column: "created_at", ascending: true },
+  { column: "id", ascending: true },
+];
+
+const MAX_PINNED = 5;
+
+/**
+ * Shadowbanned posts are shown only to the device that wrote them.
+ * Pseudo IDs are validated in identity.ts, so safe to interpolate.
+ */
+function visibleTo(viewerId: string | null): string {
+  return viewerId
+    ? `shadowbanned.eq.false,user_pseudo_id.eq.${viewerId}`
+    : "shadowbanned.eq.false";
+}
+
+/**
+ * Like visibleTo, for comments: held (pending) ones also show only
+ * to their author. Removed ones are left out separately.
+ */
+function commentsVisibleTo(viewerId: string | null): string {
+  const visible = "and(status.eq.published,shadowbanned.eq.false)";
+  return viewerId ? `${visible},user_pseudo_id.eq.${viewerId}` : visible;
+}
+
+/**
+ * One page of the home feed. Pass `cursor: null` for the first page.
+ * Pinned posts are left out; they come from queryPinnedPosts.
+ */
+export function queryFeedPage(
+  mode: FeedMode,
+  cursor: string | null,
+  limit: number,
+  viewerId: string | null = null
+) {
+  let query = supabaseAdmin
+    .from("posts")
+    .select(POST_COLUMNS)
+    .eq("status", "published")
+    .or(visibleTo(viewerId))
+    .is("pinned_at", null);
+
+  if (mode.sort === "top" && mode.period !== "all") {
+    const since = new Date(Date.now() - PERIOD_MS[mode.period]);
+    query = query.gte("created_at", since.toISOString());
+  }
+
+  return fetchKeysetPage<Post>(query, FEED_KEYS[mode.sort], { cursor, limit });
+}
+
+/** Published pinned posts, most recently pinned first. */
+export function queryPinnedPosts() {
+  return supabaseAdmin
+    .from("posts")
+    .select(POST_COLUMNS)
+    .eq("status", "published")
+    .not("pinned_at", "is", null)
+    .order("pinned_at", { ascending: false })
+    .limit(MAX_PINNED);
+}
+
+/**
+ * Returns null for unknown, malformed or unpublished IDs, and for
+ * shadowbanned posts unless `viewerId` wrote them.
+ */
+export async function getPostById(
+  id: string,
+  viewerId: string | null = null
+): Promise<Post | null> {
+  if (!isUuid(id)) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from("posts")
+    .select(POST_COLUMNS)
+    .eq("id", id)
+    .eq("status", "published")
+    .or(visibleTo(viewerId))
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching post:", error);
+    return null;
+  }
+  return data as Post | null;
+}
+
+const PENDING_LIMIT = 20;
+
+/**
+ * The caller's own posts still awaiting review, newest first.
+ * Matched on pseudo ID, so they only show on the device that
+ * wrote them.
+ */
+export function queryPendingPosts(pseudoId: string) {
+  return supabaseAdmin
+    .from("posts")
+    .select(POST_COLUMNS)
+    .eq("status", "pending")
+    .eq("user_pseudo_id", pseudoId)
+    .order("created_at", { ascending: false })
+    .limit(PENDING_LIMIT);
+}
+
+/**
+ * One page of a comment thread, oldest first. Throws a 404
+ * HttpError unless the post is one `viewerId` can see, so threads
+ * of hidden, removed or pending posts stay closed. Shadowbanned
+ * and held comments only show to their author.
+ */
+export async function queryCommentPage(
+  postId: string,
+  cursor: string | null,
+  limit: number,
+  viewerId: string | null = null
+) {
+  const post = await supabaseAdmin
+    .from("posts")
+    .select("id")
+    .eq("id", postId)
+    .eq("status", "published")
+    .or(visibleTo(viewerId))
+    .maybeSingle();
+  if (post.error) throw dbError(post.error, "Error fetching post");
+  if (!post.data) throw new HttpError(404, "post_not_found");
+
+  const query = supabaseAdmin
+    .from("comments")
+    .select(COMMENT_COLUMNS)
+    .eq("post_id", postId)
+    .neq("status", "removed")
+    .or(commentsVisibleTo(viewerId));
+
+  return fetchKeysetPage<Comment>(query, THREAD_KEYS, { cursor, limit });
+}
@@ -0,0 +1,121 @@
+// ============================================================
+// Storage backends for server-side rate limiting
+// Each key holds a small JSON state (e.g. recent timestamps)
+// that the limiter reads and rewrites atomically.
+//   memory   — per-process Map; dev, tests, single instance
+//   postgres — rate_limits table; shared across instances
+// Pick with RATE_LIMIT_STORE; defaults to postgres in production.
+// ============================================================
+
+import type { AsyncStore } from "../rate-limit-engine";
+import { supabaseAdmin } from "./supabase";
+
+// ------------------------------------------------------------
+// In-memory
+// ------------------------------------------------------------
+
+export class MemoryStore implements AsyncStore {
+  private entries = new Map<string, { state: unknown; expiresAt: number }>();
+
+  async get<S>(key: string): Promise<S | null> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return entry.state as S;
+  }
+
+  async update<S, R>(
+    key: string,
+    ttlMs: number,
+    fn: (state: S | null) => { state: S; result: R }
+  ): Promise<R> {
+    // No await between read and write, so this is atomic per process
+    const current = await this.get<S>(key);
+    const { state, result } = fn(current);
+    if (state !== current) {
+      this.entries.set(key, { state, expiresAt: Date.now() + ttlMs });
+    }
+    return result;
+  }
+}
+
+// ------------------------------------------------------------
+// Postgres (optimistic concurrency on rate_limits.version)
+// ------------------------------------------------------------
+
+const MAX_ATTEMPTS = 5;
+
+interface RateLimitRow {
+  state: unknown;
+  version: number;
+  expires_at: string;
+}
+
+export class PostgresStore implements AsyncStore {
+  private async read(key: string): Promise<RateLimitRow | null> {
+    const { data, error } = await supabaseAdmin
+      .from("rate_limits")
+      .select("state, version, expires_at")
+      .eq("key", key)
+      .maybeSingle();
+    if (error) throw error;
+    return data as RateLimitRow | null;
+  }
+
+  private live(row: RateLimitRow | null): boolean {
+    return !!row && new Date(row.expires_at).getTime() > Date.now();
+  }
+
+  async get<S>(key: string): Promise<S | null> {
+    const row = await this.read(key);
+    return this.live(row) ? (row!.state as S) : null;
+  }
+
+  async update<S, R>(
+    key: string,
+    ttlMs: number,
+    fn: (state: S | null) => { state: S; result: R }
+  ): Promise<R> {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const row = await this.read(key);
+      const current = this.live(row) ? (row!.state as S) : null;
+      const { state, result } = fn(current);
+      if (current !== null && state === current) return result;
+
+      const expires_at = new Date(Date.now() + ttlMs).toISOString();
+
+      // Insert if nobody else did; update only if nobody else has
+      const { data, error } = row
+        ? await supabaseAdmin
+            .from("rate_limits")
+            .update({ state, version: row.version + 1, expires_at })
+            .eq("key", key)
+            .eq("version", row.version)
+            .select("key")
+        : await supabaseAdmin
+            .from("rate_limits")
+            .upsert(
+              { key, state, version: 0, expires_at },
+              { onConflict: "key", ignoreDuplicates: true }
+            )
+            .select("key");
+
+      if (error) throw error;
+      if (data.length > 0) return result;
+    }
+    throw new Error(`Rate limit contention on ${key}`);
+  }
+}
+
+// ------------------------------------------------------------
+
+let store: AsyncStore | null = null;
+
+export function getRateLimitStore(): AsyncStore {
+  if (!store) {
+    const kind =
+      process.env.RATE_LIMIT_STORE ??
+      (process.env.NODE_ENV === "production" ? "postgres" : "memory");
+    store = kind === "postgres" ? new PostgresStore() : new MemoryStore();
+  }
+  return store;
+}
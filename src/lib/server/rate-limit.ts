@@ -0,0 +1,72 @@
+// ============================================================
+// Server-side rate limiting
+// Enforces src/lib/rate-limit-policies.ts per pseudo ID *and*
+// per hashed IP, so clearing site data or opening a private
+// window doesn't reset the limits.
+// ============================================================
+
+import { Algorithm, createAsyncLimiter } from "../rate-limit-engine";
+import {
+  DEVICE_LIMITS,
+  IP_LIMITS,
+  RateLimitedAction,
+} from "../rate-limit-policies";
+import { HttpError } from "./http";
+import { getIpHash, getPseudoId } from "./identity";
+import { getRateLimitStore } from "./rate-limit-store";
+
+function rateLimited(retryAfter: number, layer: "device" | "ip"): HttpError {
+  return new HttpError(
+    429,
+    "rate_limited",
+    "Too many requests",
+    { retryAfter, layer },
+    { "Retry-After": String(retryAfter) }
+  );
+}
+
+/**
+ * Count one `action` for the caller, or throw a 429 HttpError with
+ * `retryAfter` (seconds) and the `layer` that refused it. `scope` narrows the limit, e.g. a post ID
+ * for per-post like caps.
+ */
+export async function enforceRateLimit(
+  request: Request,
+  action: RateLimitedAction,
+  scope?: string
+): Promise<void> {
+  const store = getRateLimitStore();
+  const suffix = scope ? `:${scope}` : "";
+  const layers: {
+    limiter: ReturnType<typeof createAsyncLimiter>;
+    key: string;
+    layer: "device" | "ip";
+  }[] = [
+    {
+      limiter: createAsyncLimiter(DEVICE_LIMITS, store),
+      key: `id:${getPseudoId(request)}${suffix}`,
+      layer: "device",
+    },
+  ];
+  if (IP_LIMITS[action]) {
+    layers.push({
+      // Only consulted for actions that have an ip entry
+      limiter: createAsyncLimiter(
+        IP_LIMITS as Record<RateLimitedAction, Algorithm>,
+        store
+      ),
+      key: `ip:${getIpHash(request)}${suffix}`,
+      layer: "ip",
+    });
+  }
+
+  // Check every layer first so a rejection doesn't use up the others
+  for (const { limiter, key, layer } of layers) {
+    const { allowed, retryAfter } = await limiter.check(action, key);
+    if (!allowed) throw rateLimited(retryAfter, layer);
+  }
+  for (const { limiter, key, layer } of layers) {
+    const { allowed, retryAfter } = await limiter.consume(action, key);
+    if (!allowed) throw rateLimited(retryAfter, layer);
+  }
+}
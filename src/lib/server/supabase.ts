@@ -0,0 +1,15 @@
+// ============================================================
+// Server-side Supabase client (route handlers, server pages)
+// Uses the service role key, so it bypasses RLS: every write
+// must be validated by the route that makes it.
+// Never import this from a "use client" module.
+// ============================================================
+
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
@@ -0,0 +1,64 @@
+// ============================================================
+// Uploaded media checks
+// POST /api/uploads signs an upload for a declared type and
+// size, but the browser then talks to Storage directly. The
+// bucket only knows the limits shared by every kind of media
+// (20260329000000_upload_limits.sql), so posts check what was
+// actually stored before referencing it.
+// ============================================================
+
+import {
+  IMAGE_TYPES,
+  ImageType,
+  MAX_IMAGE_BYTES,
+  MAX_VIDEO_BYTES,
+  VIDEO_TYPES,
+  VideoType,
+} from "../limits";
+import { HttpError } from "./http";
+import { supabaseAdmin } from "./supabase";
+
+export const UPLOAD_BUCKET = "post-images";
+
+export const UPLOAD_EXTENSIONS: Record<ImageType | VideoType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov",
+};
+
+export function isVideoType(type: string): type is VideoType {
+  return (VIDEO_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Throw unless the object at `path` was stored with the type its
+ * extension was signed for and within that type's size limit. A
+ * mismatched object is deleted, since no post can use it.
+ */
+export async function verifyUpload(path: string, field: string) {
+  const bucket = supabaseAdmin.storage.from(UPLOAD_BUCKET);
+  const { data, error } = await bucket.info(path);
+  if (error || !data) {
+    throw new HttpError(400, "invalid_request", `${field}: not uploaded`);
+  }
+
+  const extension = path.slice(path.lastIndexOf(".") + 1);
+  const type = [...IMAGE_TYPES, ...VIDEO_TYPES].find(
+    (t) => UPLOAD_EXTENSIONS[t] === extension
+  );
+  const maxBytes =
+    type && isVideoType(type) ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES;
+  if (data.contentType === type && (data.size ?? 0) <= maxBytes) return;
+
+  const { error: removeError } = await bucket.remove([path]);
+  if (removeError) console.error("Error removing upload:", removeError);
+  throw new HttpError(
+    422,
+    "upload_rejected",
+    `${field}: the uploaded file doesn't match its type or size limit`
+  );
+}
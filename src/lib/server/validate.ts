@@ -0,0 +1,135 @@
+// ============================================================
+// Request validation — each helper returns the clean value or
+// throws a 400 HttpError naming the offending field.
+// ============================================================
+
+import { HttpError } from "./http";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function invalid(field: string, message: string): HttpError {
+  return new HttpError(400, "invalid_request", `${field}: ${message}`, {
+    field,
+  });
+}
+
+export async function readJson(
+  request: Request
+): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json();
+    if (body && typeof body === "object" && !Array.isArray(body)) return body;
+  } catch {
+    // fall through
+  }
+  throw new HttpError(400, "invalid_json", "Body must be a JSON object");
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_RE.test(value);
+}
+
+export function uuid(value: unknown, field: string): string {
+  if (!isUuid(value)) throw invalid(field, "must be a UUID");
+  return value;
+}
+
+/** A non-empty array of up to `max` UUIDs, deduplicated. */
+export function uuidList(
+  value: unknown,
+  field: string,
+  opts: { max: number }
+): string[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > opts.max) {
+    throw invalid(field, `must be a list of 1-${opts.max} UUIDs`);
+  }
+  if (!value.every(isUuid)) throw invalid(field, "must contain only UUIDs");
+  return [...new Set(value)];
+}
+
+export function text(
+  value: unknown,
+  field: string,
+  opts: { min?: number; max: number }
+): string {
+  if (typeof value !== "string") throw invalid(field, "must be a string");
+  const trimmed = value.trim();
+  if (trimmed.length < (opts.min ?? 1)) throw invalid(field, "is too short");
+  if (trimmed.length > opts.max) {
+    throw invalid(field, `must be at most ${opts.max} characters`);
+  }
+  return trimmed;
+}
+
+export function bool(value: unknown, field: string): boolean {
+  if (typeof value !== "boolean") throw invalid(field, "must be true or false");
+  return value;
+}
+
+export function oneOf<T extends string>(
+  value: unknown,
+  field: string,
+  options: readonly T[]
+): T {
+  if (!options.includes(value as T)) {
+    throw invalid(field, `must be one of ${options.join(", ")}`);
+  }
+  return value as T;
+}
+
+export function int(
+  value: unknown,
+  field: string,
+  opts: { min: number; max: number; fallback?: number }
+): number {
+  if (
+    (value === null || value === undefined || value === "") &&
+    opts.fallback !== undefined
+  ) {
+    return opts.fallback;
+  }
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n)) {
+    throw invalid(field, "must be an integer");
+  }
+  if (n < opts.min || n > opts.max) {
+    throw invalid(field, `must be between ${opts.min} and ${opts.max}`);
+  }
+  return n;
+}
+
+/** A calendar date as YYYY-MM-DD (interpreted as UTC). */
+export function isoDate(value: unknown, field: string): string {
+  if (
+    typeof value !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(Date.parse(value))
+  ) {
+    throw invalid(field, "must be a date (YYYY-MM-DD)");
+  }
+  return value;
+}
+
+/** An ISO 8601 timestamp; returned normalised to UTC. */
+export function timestamp(value: unknown, field: string): string {
+  const ms = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(ms)) throw invalid(field, "must be an ISO timestamp");
+  return new Date(ms).toISOString();
+}
+
+/** Small JSON objects only (analytics metadata and similar). */
+export function smallObject(
+  value: unknown,
+  field: string,
+  maxBytes = 2048
+): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw invalid(field, "must be an object");
+  }
+  if (JSON.stringify(value).length > maxBytes) {
+    throw invalid(field, `must be under ${maxBytes} bytes`);
+  }
+  return value as Record<string, unknown>;
+}
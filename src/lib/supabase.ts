@@ -1,6 +1,8 @@
-import { createClient } from "@supabase/supabase-js";
+import { createBrowserClient } from "@supabase/ssr";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Browser client: keeps the admin Auth session in cookies so the
+// proxy and API routes can read it (src/lib/server/admin.ts)
+export const supabase = createBrowserClient(supabaseUrl, supabaseAnonKey);
@@ -1,12 +1,68 @@
+export type ReactionType = "laugh" | "fire" | "sad" | "wow" | "heart";
+export type PostStatus = "published" | "pending" | "hidden" | "removed";
+export type ReportReason = "harassment" | "personal_info" | "spam" | "other";
+
 export interface Post {
   id: string;
   content: string;
   media_url: string | null;
   media_type: "image" | "video" | null;
+  media_width: number | null; // px; null for older uploads
+  media_height: number | null;
+  media_placeholder: string | null; // tiny blurred data: URL
+  media_poster_url: string | null; // videos: frame shown before playback
+  media?: PostMedia[]; // see postImages(); missing from Realtime rows
   likes: number;
+  hot_score: number;
+  comment_count: number;
+  reactions: Partial<Record<ReactionType, number>>;
+  status: PostStatus; // only the author ever sees non-published posts
+  pinned_at: string | null; // pinned posts lead the feed
+  featured: boolean;
   created_at: string;
 }
 
+/** One image of a multi-image post (post_media table). */
+export interface PostMedia {
+  position: number; // display order, from 0
+  url: string;
+  width: number | null;
+  height: number | null;
+  placeholder: string | null;
+}
+
+/** A post as moderators see it, with its open reports summarised. */
+export interface ModerationItem {
+  post: Post & {
+    report_count: number;
+    filter_flags: string[]; // content filter rules that matched
+  };
+  reasons: Partial<Record<ReportReason, number>>;
+  details: string[]; // free-text notes from open reports
+}
+
+/** A post in the admin browser (/admin/posts), any status. */
+export interface AdminPost extends Post {
+  report_count: number;
+  shadowbanned: boolean; // only its author sees it
+}
+
+export type CommentStatus = "published" | "pending" | "removed";
+
+export interface Comment {
+  id: string;
+  post_id: string;
+  content: string;
+  anon_number: number; // stable per device within a thread
+  status: CommentStatus; // only the author ever sees pending ones
+  created_at: string;
+}
+
+/** A comment held by the content filter, as moderators see it. */
+export interface HeldComment extends Comment {
+  filter_flags: string[];
+}
+
 export interface Feedback {
   id: string;
   post_id: string | null;
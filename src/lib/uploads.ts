@@ -0,0 +1,103 @@
+// ============================================================
+// Media uploads
+// POST /api/uploads signs a one-off Storage upload; the bytes
+// then go straight to Storage with XMLHttpRequest, which (unlike
+// fetch) reports upload progress.
+// ============================================================
+
+import { api, ApiError, ApiResponse } from "./api";
+
+const BUCKET = "post-images";
+
+/** A processed image or video (src/lib/images.ts, videos.ts). */
+export interface UploadFile {
+  blob: Blob;
+  type: string;
+}
+
+function putToSignedUrl(
+  path: string,
+  token: string,
+  file: UploadFile,
+  onProgress: (fraction: number) => void
+): Promise<ApiError | null> {
+  const url = new URL(
+    `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/upload/sign/${BUCKET}/${path}`
+  );
+  url.searchParams.set("token", token);
+
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url.toString());
+    xhr.setRequestHeader("apikey", process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+    xhr.setRequestHeader("content-type", file.type);
+    xhr.setRequestHeader("cache-control", "max-age=3600");
+    xhr.setRequestHeader("x-upsert", "false");
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        resolve(null);
+      } else {
+        resolve(
+          new ApiError(
+            xhr.status,
+            "upload_error",
+            xhr.statusText || "Upload failed"
+          )
+        );
+      }
+    };
+    xhr.onerror = () =>
+      resolve(new ApiError(0, "network_error", "Upload failed"));
+    xhr.send(file.blob);
+  });
+}
+
+async function uploadOne(
+  file: UploadFile,
+  onProgress: (fraction: number) => void
+): Promise<ApiResponse<string>> {
+  const { data, error } = await api.post<{ path: string; token: string }>(
+    "/api/uploads",
+    { content_type: file.type, size: file.blob.size }
+  );
+  if (error) return { data: null, error };
+
+  const uploadError = await putToSignedUrl(
+    data.path,
+    data.token,
+    file,
+    onProgress
+  );
+  if (uploadError) return { data: null, error: uploadError };
+  return { data: data.path, error: null };
+}
+
+/**
+ * Upload files one after another and resolve with their Storage
+ * paths, in order, to pass to POST /api/posts. Progress covers
+ * all of them, by size. Errors from the signing route (rate
+ * limits, bans, disabled flags) come back unchanged.
+ */
+export async function uploadMedia(
+  files: UploadFile[],
+  onProgress: (fraction: number) => void
+): Promise<ApiResponse<string[]>> {
+  const total = files.reduce((sum, f) => sum + f.blob.size, 0);
+  const paths: string[] = [];
+  let done = 0;
+
+  for (const file of files) {
+    const { data: path, error } = await uploadOne(file, (fraction) =>
+      onProgress((done + fraction * file.blob.size) / total)
+    );
+    if (error) return { data: null, error };
+    paths.push(path);
+    done += file.blob.size;
+  }
+  return { data: paths, error: null };
+}
@@ -0,0 +1,26 @@
+// ============================================================
+// useAdmin — the signed-in admin (GET /api/admin/me)
+// null until loaded, or when the session has expired.
+// ============================================================
+
+import { useEffect, useState } from "react";
+import { api } from "./api";
+import { AdminUser } from "./admin";
+
+export function useAdmin(): AdminUser | null {
+  const [admin, setAdmin] = useState<AdminUser | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    api.get<AdminUser>("/api/admin/me").then(({ data, error }) => {
+      if (!active) return;
+      if (error) console.error("Error fetching admin:", error);
+      else setAdmin(data);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return admin;
+}
@@ -0,0 +1,41 @@
+// ============================================================
+// useFlag — feature flags evaluated for this device
+// All hooks on a page share one GET /api/flags. Until it
+// resolves (or if it fails) flags read as DEFAULT_FLAGS.
+// ============================================================
+
+import { useEffect, useState } from "react";
+import { api } from "./api";
+import { DEFAULT_FLAGS, FlagKey, FlagState, FlagStates } from "./flags";
+
+let flagsRequest: Promise<FlagStates> | null = null;
+
+function fetchFlags(): Promise<FlagStates> {
+  if (!flagsRequest) {
+    flagsRequest = api.get<FlagStates>("/api/flags").then(({ data, error }) => {
+      if (error) {
+        console.error("Error fetching feature flags:", error);
+        flagsRequest = null; // retry on next mount
+        return DEFAULT_FLAGS;
+      }
+      return data;
+    });
+  }
+  return flagsRequest;
+}
+
+export function useFlag(key: FlagKey): FlagState & { ready: boolean } {
+  const [flag, setFlag] = useState<FlagState | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    fetchFlags().then((flags) => {
+      if (active) setFlag(flags[key] ?? DEFAULT_FLAGS[key]);
+    });
+    return () => {
+      active = false;
+    };
+  }, [key]);
+
+  return { ...(flag ?? DEFAULT_FLAGS[key]), ready: flag !== null };
+}
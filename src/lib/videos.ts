@@ -0,0 +1,127 @@
+// ============================================================
+// Client-side video checks, run before anything is uploaded
+// Re-encoding video in the browser isn't practical, so clips keep
+// their audio and video as picked; this decodes just enough of the
+// file to read its duration and size and to capture a poster
+// frame. The poster goes through the image pipeline and also
+// provides the blurred placeholder.
+// MP4/MOV metadata boxes (udta, meta, uuid) are blanked before
+// upload: phone cameras record where a clip was filmed there
+// (©xyz, com.apple.quicktime.location.ISO6709). WebM from
+// browsers and phones carries no location and is left as is.
+// ============================================================
+
+import { encodeBitmap, ProcessedImage } from "./images";
+import { VideoType } from "./limits";
+
+const POSTER_AT_SECONDS = 0.5; // skips fade-ins and black first frames
+
+// Boxes that can hold location, device or editing metadata, and
+// the boxes they are found in (the file itself, movie or track)
+const METADATA_BOXES = new Set(["udta", "meta", "uuid"]);
+const METADATA_PARENTS = new Set(["moov", "trak"]);
+
+export interface ProcessedVideo {
+  blob: Blob;
+  type: VideoType;
+  width: number;
+  height: number;
+  duration: number; // seconds
+  poster: ProcessedImage;
+}
+
+function loadVideo(url: string): Promise<HTMLVideoElement> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  return new Promise((resolve, reject) => {
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not decode video"));
+    video.src = url;
+  });
+}
+
+function seek(video: HTMLVideoElement, seconds: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error("Could not seek video"));
+    video.currentTime = seconds;
+  });
+}
+
+/**
+ * Turn every metadata box in `bytes[start, end)` into a zero-filled
+ * "free" box of the same size, descending into movie and track
+ * boxes. Sizes never change, so the sample offsets stay valid.
+ * Throws on a box that doesn't fit its parent.
+ */
+function blankMetadataBoxes(bytes: Uint8Array, start: number, end: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(pos + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos; // runs to the end of its parent
+    }
+    if (size < header || pos + size > end) {
+      throw new Error(`Malformed ${type} box`);
+    }
+
+    if (METADATA_BOXES.has(type)) {
+      bytes.set([0x66, 0x72, 0x65, 0x65], pos + 4); // "free"
+      bytes.fill(0, pos + header, pos + size);
+    } else if (METADATA_PARENTS.has(type)) {
+      blankMetadataBoxes(bytes, pos + header, pos + size);
+    }
+    pos += size;
+  }
+}
+
+/** A copy of an MP4/MOV clip without its metadata boxes. */
+async function stripVideoMetadata(file: File): Promise<Blob> {
+  if (file.type === "video/webm") return file;
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  blankMetadataBoxes(bytes, 0, bytes.length);
+  return new Blob([bytes], { type: file.type });
+}
+
+/**
+ * Read a picked clip's duration and size and capture its poster,
+ * and strip its metadata.
+ * Rejects if the browser can't play the file, which is also what
+ * viewers would run into.
+ */
+export async function processVideo(file: File): Promise<ProcessedVideo> {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+    // Live recordings can report Infinity until fully scanned
+    if (!Number.isFinite(video.duration) || !video.videoWidth) {
+      throw new Error("Video has no usable duration or size");
+    }
+
+    await seek(video, Math.min(POSTER_AT_SECONDS, video.duration / 2));
+    const bitmap = await createImageBitmap(video);
+    try {
+      return {
+        blob: await stripVideoMetadata(file),
+        type: file.type as VideoType,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration: video.duration,
+        poster: await encodeBitmap(bitmap),
+      };
+    } finally {
+      bitmap.close();
+    }
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,87 @@
+// ============================================================
+// Admin session proxy
+// Refreshes the Supabase Auth session cookies on admin requests
+// and keeps signed-out and non-admin users away from the admin
+// and dashboard pages. Role checks happen in the API routes
+// (src/lib/server/admin.ts); admin API requests only get their
+// session refreshed here.
+// ============================================================
+
+import { NextResponse, type NextRequest } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { ADMIN_LOGIN_PATH } from "@/lib/admin";
+
+export async function proxy(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll(toSet) {
+          for (const { name, value } of toSet) {
+            request.cookies.set(name, value);
+          }
+          response = NextResponse.next({ request });
+          for (const { name, value, options } of toSet) {
+            response.cookies.set(name, value, options);
+          }
+        },
+      },
+    }
+  );
+
+  // Must run before anything else: it's what refreshes the tokens
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith("/api/") || pathname === ADMIN_LOGIN_PATH) {
+    return response;
+  }
+
+  if (!user) {
+    return redirectToLogin(request, response, { next: pathname + search });
+  }
+
+  // RLS lets a user read only their own admins row
+  const { data: admin } = await supabase
+    .from("admins")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (!admin) {
+    return redirectToLogin(request, response, { error: "not_admin" });
+  }
+
+  return response;
+}
+
+/** Redirect, keeping any refreshed session cookies. */
+function redirectToLogin(
+  request: NextRequest,
+  response: NextResponse,
+  params: Record<string, string>
+) {
+  const url = request.nextUrl.clone();
+  url.pathname = ADMIN_LOGIN_PATH;
+  url.search = new URLSearchParams(params).toString();
+
+  const redirect = NextResponse.redirect(url);
+  for (const cookie of response.cookies.getAll()) {
+    redirect.cookies.set(cookie);
+  }
+  return redirect;
+}
+
+export const config = {
+  matcher: [
+    "/admin/:path*",
+    "/dashboard/:path*",
+    "/api/admin/:path*",
+    "/api/metrics/:path*",
+  ],
+};
@@ -0,0 +1,35 @@
+-- ============================================================
+-- Hot ranking for the home feed
+-- hot_score = log10(likes) + age bonus, so newer posts need
+-- fewer likes to rank equally. Time-independent, which keeps
+-- ordering stable while someone scrolls.
+-- ============================================================
+
+alter table posts
+  add column if not exists hot_score double precision not null default 0;
+
+create or replace function posts_compute_hot_score()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- 45000 s (12.5 h) of age is worth one order of magnitude of likes
+  new.hot_score :=
+    log(greatest(new.likes, 1))
+    + extract(epoch from new.created_at) / 45000;
+  return new;
+end;
+$$;
+
+drop trigger if exists posts_hot_score on posts;
+create trigger posts_hot_score
+  before insert or update of likes, created_at on posts
+  for each row execute function posts_compute_hot_score();
+
+-- Backfill existing rows
+update posts
+set hot_score = log(greatest(likes, 1)) + extract(epoch from created_at) / 45000;
+
+create index if not exists posts_hot_score_idx on posts (hot_score desc);
+create index if not exists posts_likes_idx on posts (likes desc, created_at desc);
+create index if not exists posts_created_at_idx on posts (created_at desc);
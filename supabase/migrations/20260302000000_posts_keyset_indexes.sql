@@ -0,0 +1,16 @@
+-- ============================================================
+-- Keyset pagination indexes
+-- Each feed mode pages on its sort columns plus `id` as a
+-- unique tie-breaker (see src/lib/feed.ts).
+-- ============================================================
+
+drop index if exists posts_hot_score_idx;
+drop index if exists posts_likes_idx;
+drop index if exists posts_created_at_idx;
+
+create index if not exists posts_hot_keyset_idx
+  on posts (hot_score desc, id desc);
+create index if not exists posts_top_keyset_idx
+  on posts (likes desc, created_at desc, id desc);
+create index if not exists posts_new_keyset_idx
+  on posts (created_at desc, id desc);
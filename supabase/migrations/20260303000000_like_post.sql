@@ -0,0 +1,68 @@
+-- ============================================================
+-- Server-enforced likes
+-- like_post() increments posts.likes atomically, records one
+-- post_likes row per like and caps each device at 5 likes per
+-- post (LIKE_LIMIT_PER_POST in src/lib/rate-limit.ts).
+-- ============================================================
+
+create table if not exists post_likes (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references posts (id) on delete cascade,
+  user_pseudo_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists post_likes_post_user_idx
+  on post_likes (post_id, user_pseudo_id);
+
+-- No policies: rows are only written through like_post()
+alter table post_likes enable row level security;
+
+create or replace function like_post(p_post_id uuid, p_user_pseudo_id text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  like_limit constant integer := 5;
+  given integer;
+  new_likes integer;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+
+  -- Lock the post row so concurrent likes from the same device
+  -- cannot both pass the cap check
+  perform 1 from posts where id = p_post_id for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  select count(*) into given
+  from post_likes
+  where post_id = p_post_id and user_pseudo_id = p_user_pseudo_id;
+
+  if given >= like_limit then
+    raise exception 'like_limit_reached';
+  end if;
+
+  insert into post_likes (post_id, user_pseudo_id)
+  values (p_post_id, p_user_pseudo_id);
+
+  update posts
+  set likes = likes + 1
+  where id = p_post_id
+  returning likes into new_likes;
+
+  return new_likes;
+end;
+$$;
+
+revoke all on function like_post(uuid, text) from public;
+grant execute on function like_post(uuid, text) to anon, authenticated;
+
+-- Likes can no longer be written directly with the anon key
+revoke update on posts from anon, authenticated;
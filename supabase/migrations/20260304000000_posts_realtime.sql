@@ -0,0 +1,6 @@
+-- ============================================================
+-- Broadcast post inserts and like updates to the feed
+-- (src/lib/realtime.ts).
+-- ============================================================
+
+alter publication supabase_realtime add table posts;
@@ -0,0 +1,92 @@
+-- ============================================================
+-- Anonymous comment threads
+-- Each device gets a stable "Anon #N" handle per thread:
+-- anon_number is assigned on its first comment in that post.
+-- user_pseudo_id is never readable by clients.
+-- ============================================================
+
+create table if not exists comments (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references posts (id) on delete cascade,
+  content text not null check (char_length(content) between 1 and 255),
+  user_pseudo_id text not null,
+  anon_number integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists comments_thread_keyset_idx
+  on comments (post_id, created_at, id);
+create index if not exists comments_post_user_idx
+  on comments (post_id, user_pseudo_id);
+
+alter table posts
+  add column if not exists comment_count integer not null default 0;
+
+alter table comments enable row level security;
+
+create policy "Comments are readable by everyone"
+  on comments for select
+  using (true);
+
+-- Column-level grant keeps user_pseudo_id private
+revoke select on comments from anon, authenticated;
+grant select (id, post_id, content, anon_number, created_at)
+  on comments to anon, authenticated;
+
+create or replace function add_comment(
+  p_post_id uuid,
+  p_user_pseudo_id text,
+  p_content text
+)
+returns table (
+  id uuid,
+  post_id uuid,
+  content text,
+  anon_number integer,
+  created_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  trimmed text := btrim(p_content);
+  handle integer;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+  if char_length(trimmed) = 0 or char_length(trimmed) > 255 then
+    raise exception 'invalid_content';
+  end if;
+
+  -- Lock the post so two first-time commenters can't share a number
+  perform 1 from posts p where p.id = p_post_id for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  select c.anon_number into handle
+  from comments c
+  where c.post_id = p_post_id and c.user_pseudo_id = p_user_pseudo_id
+  limit 1;
+
+  if handle is null then
+    select coalesce(max(c.anon_number), 0) + 1 into handle
+    from comments c
+    where c.post_id = p_post_id;
+  end if;
+
+  update posts p set comment_count = p.comment_count + 1
+  where p.id = p_post_id;
+
+  return query
+  insert into comments as c (post_id, content, user_pseudo_id, anon_number)
+  values (p_post_id, trimmed, p_user_pseudo_id, handle)
+  returning c.id, c.post_id, c.content, c.anon_number, c.created_at;
+end;
+$$;
+
+revoke all on function add_comment(uuid, text, text) from public;
+grant execute on function add_comment(uuid, text, text) to anon, authenticated;
@@ -0,0 +1,71 @@
+-- ============================================================
+-- Emoji reactions
+-- One reaction of each type per device per post. Per-type
+-- counts are denormalised onto posts.reactions for the feed.
+-- Types match REACTIONS in src/lib/reactions.ts.
+-- ============================================================
+
+create table if not exists post_reactions (
+  post_id uuid not null references posts (id) on delete cascade,
+  user_pseudo_id text not null,
+  reaction text not null
+    check (reaction in ('laugh', 'fire', 'sad', 'wow', 'heart')),
+  created_at timestamptz not null default now(),
+  primary key (post_id, user_pseudo_id, reaction)
+);
+
+-- No policies: rows are only written through react_to_post()
+alter table post_reactions enable row level security;
+
+alter table posts
+  add column if not exists reactions jsonb not null default '{}'::jsonb;
+
+create or replace function react_to_post(
+  p_post_id uuid,
+  p_user_pseudo_id text,
+  p_reaction text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  counts jsonb;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+  if p_reaction not in ('laugh', 'fire', 'sad', 'wow', 'heart') then
+    raise exception 'invalid_reaction';
+  end if;
+
+  perform 1 from posts where id = p_post_id for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  insert into post_reactions (post_id, user_pseudo_id, reaction)
+  values (p_post_id, p_user_pseudo_id, p_reaction)
+  on conflict do nothing;
+
+  if not found then
+    raise exception 'already_reacted';
+  end if;
+
+  update posts
+  set reactions = jsonb_set(
+    reactions,
+    array[p_reaction],
+    to_jsonb(coalesce((reactions ->> p_reaction)::integer, 0) + 1)
+  )
+  where id = p_post_id
+  returning reactions into counts;
+
+  return counts;
+end;
+$$;
+
+revoke all on function react_to_post(uuid, text, text) from public;
+grant execute on function react_to_post(uuid, text, text) to anon, authenticated;
@@ -0,0 +1,12 @@
+-- All reads and writes now go through the Next.js API routes
+-- (service role). The anon key keeps only what the browser still
+-- needs: SELECT on posts for Realtime, and signed Storage uploads.
+
+revoke insert, update, delete on posts from anon, authenticated;
+revoke all on feedback from anon, authenticated;
+revoke all on analytics_events from anon, authenticated;
+revoke all on comments from anon, authenticated;
+
+revoke execute on function like_post(uuid, text) from anon, authenticated;
+revoke execute on function add_comment(uuid, text, text) from anon, authenticated;
+revoke execute on function react_to_post(uuid, text, text) from anon, authenticated;
@@ -0,0 +1,31 @@
+-- Server-side rate limit state (src/lib/server/rate-limit-store.ts).
+-- Keys look like "post:id:<pseudo id>" or "like:<post id>:ip:<hash>";
+-- state is whatever the limiter keeps (recent timestamps, counters).
+-- Writers bump `version` and only update the version they read.
+
+create table rate_limits (
+  key text primary key,
+  state jsonb not null,
+  version integer not null default 0,
+  expires_at timestamptz not null
+);
+
+create index rate_limits_expires_at_idx on rate_limits (expires_at);
+
+-- Service role only
+alter table rate_limits enable row level security;
+revoke all on rate_limits from anon, authenticated;
+
+-- Expired rows are ignored by the store; run this on a schedule
+-- (e.g. pg_cron, hourly) to keep the table small.
+create or replace function purge_expired_rate_limits()
+returns integer
+language sql
+as $$
+  with deleted as (
+    delete from rate_limits where expires_at < now() returning 1
+  )
+  select count(*)::integer from deleted;
+$$;
+
+revoke all on function purge_expired_rate_limits() from public, anon, authenticated;
@@ -0,0 +1,23 @@
+-- Runtime feature flags (src/lib/flags.ts). Read and written only
+-- through the API routes; the service role bypasses RLS.
+--   rollout_percent — share of devices that get the feature when
+--                     enabled, bucketed by pseudo ID
+--   message         — shown to users while the feature is off
+
+create table feature_flags (
+  key text primary key,
+  enabled boolean not null default false,
+  rollout_percent integer not null default 100
+    check (rollout_percent between 0 and 100),
+  message text check (char_length(message) <= 280),
+  updated_at timestamptz not null default now()
+);
+
+alter table feature_flags enable row level security;
+revoke all on feature_flags from anon, authenticated;
+
+insert into feature_flags (key, enabled, message) values
+  ('posting', false,
+   'Posting has been temporarily disabled due to community guidelines.'),
+  ('image_uploads', true, null),
+  ('feedback_survey', true, null);
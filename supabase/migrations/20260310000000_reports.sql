@@ -0,0 +1,145 @@
+-- ============================================================
+-- Post reports and moderation
+-- Students report posts with a reason; once a post collects
+-- REPORT_HIDE_THRESHOLD open reports it's hidden until a
+-- moderator reviews it at /admin/moderation.
+--   published — visible everywhere
+--   hidden    — auto-hidden by reports, awaiting review
+--   removed   — taken down by a moderator
+-- Reasons match REPORT_REASONS in src/lib/reports.ts.
+-- ============================================================
+
+alter table posts
+  add column if not exists status text not null default 'published'
+    check (status in ('published', 'hidden', 'removed')),
+  add column if not exists report_count integer not null default 0;
+
+create index if not exists posts_moderation_queue_idx
+  on posts (status, report_count desc)
+  where status <> 'published' or report_count > 0;
+
+create table if not exists reports (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references posts (id) on delete cascade,
+  user_pseudo_id text not null,
+  reason text not null
+    check (reason in ('harassment', 'personal_info', 'spam', 'other')),
+  details text check (char_length(details) <= 255),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolution text check (resolution in ('approved', 'removed')),
+  unique (post_id, user_pseudo_id)
+);
+
+create index if not exists reports_open_idx
+  on reports (post_id) where resolved_at is null;
+
+-- Service role only
+alter table reports enable row level security;
+revoke all on reports from anon, authenticated;
+
+-- Realtime and any direct reads only ever see published posts
+create policy "Only published posts are public"
+  on posts as restrictive for select
+  to anon, authenticated
+  using (status = 'published');
+
+-- ------------------------------------------------------------
+-- report_post: one report per device per post
+-- ------------------------------------------------------------
+
+create or replace function report_post(
+  p_post_id uuid,
+  p_user_pseudo_id text,
+  p_reason text,
+  p_details text default null
+)
+returns text -- the post's status afterwards
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  report_hide_threshold constant integer := 3;
+  open_reports integer;
+  new_status text;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+  if p_reason not in ('harassment', 'personal_info', 'spam', 'other') then
+    raise exception 'invalid_reason';
+  end if;
+
+  perform 1 from posts where id = p_post_id for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  insert into reports (post_id, user_pseudo_id, reason, details)
+  values (p_post_id, p_user_pseudo_id, p_reason, nullif(btrim(p_details), ''))
+  on conflict do nothing;
+
+  if not found then
+    raise exception 'already_reported';
+  end if;
+
+  update posts
+  set report_count = report_count + 1
+  where id = p_post_id
+  returning report_count, status into open_reports, new_status;
+
+  if new_status = 'published' and open_reports >= report_hide_threshold then
+    update posts set status = 'hidden' where id = p_post_id;
+    new_status := 'hidden';
+  end if;
+
+  return new_status;
+end;
+$$;
+
+revoke all on function report_post(uuid, text, text, text)
+  from public, anon, authenticated;
+
+-- ------------------------------------------------------------
+-- moderate_post: approve | remove | restore
+--   approve — keep it up and dismiss the open reports
+--   remove  — take it down and close the open reports
+--   restore — put a hidden/removed post back up
+-- ------------------------------------------------------------
+
+create or replace function moderate_post(p_post_id uuid, p_action text)
+returns text -- the post's status afterwards
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_status text;
+begin
+  if p_action not in ('approve', 'remove', 'restore') then
+    raise exception 'invalid_action';
+  end if;
+
+  update posts
+  set status = case p_action when 'remove' then 'removed' else 'published' end,
+      report_count = 0
+  where id = p_post_id
+  returning status into new_status;
+
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  update reports
+  set resolved_at = now(),
+      resolution = case p_action when 'remove' then 'removed' else 'approved' end
+  where post_id = p_post_id and resolved_at is null;
+
+  return new_status;
+end;
+$$;
+
+revoke all on function moderate_post(uuid, text)
+  from public, anon, authenticated;
@@ -0,0 +1,7 @@
+-- Rules from the pre-publication content filter that matched a
+-- post (src/lib/server/content-filter.ts). Posts held for review
+-- are inserted as 'hidden', so they land in the moderation queue
+-- with these flags explaining why.
+
+alter table posts
+  add column if not exists filter_flags text[] not null default '{}';
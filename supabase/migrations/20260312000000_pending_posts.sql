@@ -0,0 +1,51 @@
+-- ============================================================
+-- Hold-for-review mode
+-- While the hold_for_review flag is on, new posts are inserted
+-- as 'pending': only their author's device sees them (matched
+-- on user_pseudo_id, server-side) until a moderator approves
+-- or rejects them. Posts held by the content filter use the
+-- same status.
+-- ============================================================
+
+alter table posts drop constraint if exists posts_status_check;
+alter table posts add constraint posts_status_check
+  check (status in ('published', 'pending', 'hidden', 'removed'));
+
+alter table posts add column if not exists user_pseudo_id text;
+
+create index if not exists posts_pending_author_idx
+  on posts (user_pseudo_id, created_at desc) where status = 'pending';
+create index if not exists posts_pending_idx
+  on posts (created_at) where status = 'pending';
+
+-- Column-level grant keeps the author and moderation fields
+-- private (Realtime payloads included)
+revoke select on posts from anon, authenticated;
+grant select (
+  id, content, media_url, media_type, likes, hot_score,
+  comment_count, reactions, status, created_at
+) on posts to anon, authenticated;
+
+-- Bulk approve/reject from the approval list; all or nothing
+create or replace function moderate_posts(p_post_ids uuid[], p_action text)
+returns table (id uuid, status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  post_id uuid;
+begin
+  foreach post_id in array p_post_ids loop
+    id := post_id;
+    status := moderate_post(post_id, p_action);
+    return next;
+  end loop;
+end;
+$$;
+
+revoke all on function moderate_posts(uuid[], text)
+  from public, anon, authenticated;
+
+insert into feature_flags (key, enabled) values ('hold_for_review', false)
+on conflict (key) do nothing;
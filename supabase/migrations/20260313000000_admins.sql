@@ -0,0 +1,31 @@
+-- ============================================================
+-- Admin accounts
+-- Admins sign in with Supabase Auth (password or magic link).
+-- A user is an admin only if they have a row here; the role
+-- decides what they can do (src/lib/admin.ts):
+--   viewer    — metrics and analytics dashboards
+--   moderator — viewer + moderation queue and actions
+--   owner     — moderator + feature flags
+--
+-- Bootstrap the first owner after inviting them in Auth:
+--   insert into admins (user_id, role)
+--   select id, 'owner' from auth.users where email = 'you@example.com';
+-- ============================================================
+
+create table if not exists admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  role text not null check (role in ('viewer', 'moderator', 'owner')),
+  created_at timestamptz not null default now()
+);
+
+alter table admins enable row level security;
+
+-- src/proxy.ts checks membership with the user's own session;
+-- every other read and all writes go through the service role
+create policy "Admins can read their own row"
+  on admins for select
+  to authenticated
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on admins from anon, authenticated;
+revoke all on admins from anon;
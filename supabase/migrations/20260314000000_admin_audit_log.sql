@@ -0,0 +1,52 @@
+-- ============================================================
+-- Admin audit log
+-- One row per privileged action (moderation, flag changes, ...)
+-- with who did it, to what, and the target's state before and
+-- after. Written by the API routes (src/lib/server/audit.ts);
+-- rows can never be changed or deleted, not even by the
+-- service role.
+-- ============================================================
+
+create table if not exists admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  -- Email is copied so entries stay readable if the admin is removed
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  actor_role text not null,
+  action text not null,
+  target_type text not null,
+  target_id text not null,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_idx
+  on admin_audit_log (created_at desc, id desc);
+create index if not exists admin_audit_log_actor_idx
+  on admin_audit_log (actor_email, created_at desc);
+create index if not exists admin_audit_log_action_idx
+  on admin_audit_log (action, created_at desc);
+
+alter table admin_audit_log enable row level security;
+revoke all on admin_audit_log from anon, authenticated;
+
+create or replace function prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log_is_append_only';
+end;
+$$;
+
+drop trigger if exists admin_audit_log_append_only on admin_audit_log;
+create trigger admin_audit_log_append_only
+  before update or delete on admin_audit_log
+  for each row execute function prevent_audit_log_changes();
+
+-- Row triggers don't fire on truncate
+drop trigger if exists admin_audit_log_no_truncate on admin_audit_log;
+create trigger admin_audit_log_no_truncate
+  before truncate on admin_audit_log
+  for each statement execute function prevent_audit_log_changes();
@@ -0,0 +1,15 @@
+-- ============================================================
+-- Pinned and featured posts (/admin/posts)
+-- Pinned posts lead the first page of every feed mode, most
+-- recently pinned first. Featured posts stay in their normal
+-- place but get a highlighted card.
+-- ============================================================
+
+alter table posts add column if not exists pinned_at timestamptz;
+alter table posts add column if not exists featured boolean not null default false;
+
+create index if not exists posts_pinned_idx
+  on posts (pinned_at desc) where pinned_at is not null;
+
+-- Extend the column grant from 20260312000000_pending_posts.sql
+grant select (pinned_at, featured) on posts to anon, authenticated;
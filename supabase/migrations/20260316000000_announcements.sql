@@ -0,0 +1,26 @@
+-- ============================================================
+-- Announcements
+-- Official messages shown as a banner under the feed header
+-- between starts_at and ends_at (open-ended when null). Managed
+-- from /admin/announcements; read through GET /api/announcements.
+-- ============================================================
+
+create table if not exists announcements (
+  id uuid primary key default gen_random_uuid(),
+  title text not null check (char_length(title) between 1 and 120),
+  body text not null default '' check (char_length(body) <= 1000),
+  severity text not null default 'info'
+    check (severity in ('info', 'warning', 'critical')),
+  starts_at timestamptz not null default now(),
+  ends_at timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_at is null or ends_at > starts_at)
+);
+
+create index if not exists announcements_window_idx
+  on announcements (starts_at, ends_at);
+
+alter table announcements enable row level security;
+revoke all on announcements from anon, authenticated;
@@ -0,0 +1,50 @@
+-- ============================================================
+-- Device bans and shadowbans
+-- Issued by moderators from a post's admin view against the
+-- author's user_pseudo_id, optionally also the hashed IP the
+-- post came from. Checked by the API on every write:
+--   ban       — posting, commenting, liking and reporting fail
+--               with a 403 naming the reason and expiry
+--   shadowban — posts are stored with shadowbanned = true and
+--               only their author's device sees them; reports
+--               are accepted but dropped
+-- A ban stops applying once it expires or is revoked. Posts
+-- written while shadowbanned stay hidden until it's revoked.
+-- ============================================================
+
+create table if not exists bans (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('ban', 'shadowban')),
+  user_pseudo_id text not null,
+  ip_hash text,
+  reason text not null check (char_length(reason) between 1 and 500),
+  post_id uuid references posts (id) on delete set null, -- issued from
+  expires_at timestamptz, -- null = until revoked
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  revoked_by uuid references auth.users (id) on delete set null
+);
+
+create index if not exists bans_active_device_idx
+  on bans (user_pseudo_id) where revoked_at is null;
+create index if not exists bans_active_ip_idx
+  on bans (ip_hash) where revoked_at is null and ip_hash is not null;
+
+alter table bans enable row level security;
+revoke all on bans from anon, authenticated;
+
+-- Neither column is in the client grant from
+-- 20260312000000_pending_posts.sql
+alter table posts add column if not exists ip_hash text;
+alter table posts
+  add column if not exists shadowbanned boolean not null default false;
+
+create index if not exists posts_author_idx on posts (user_pseudo_id);
+
+-- Keep shadowbanned posts out of Realtime and direct reads
+drop policy if exists "Only published posts are public" on posts;
+create policy "Only published posts are public"
+  on posts as restrictive for select
+  to anon, authenticated
+  using (status = 'published' and not shadowbanned);
@@ -0,0 +1,20 @@
+-- ============================================================
+-- Image dimensions and placeholders
+-- Recorded by the browser's image pipeline (src/lib/images.ts)
+-- at upload time so the feed can reserve each image's space and
+-- paint a blurred preview before the real image loads.
+-- media_placeholder is a tiny data: URL (a few hundred bytes).
+-- Null for text posts and for images from before this change.
+-- ============================================================
+
+alter table posts
+  add column if not exists media_width integer
+    check (media_width between 1 and 10000),
+  add column if not exists media_height integer
+    check (media_height between 1 and 10000),
+  add column if not exists media_placeholder text
+    check (char_length(media_placeholder) <= 2048);
+
+-- Extend the column grant from 20260312000000_pending_posts.sql
+grant select (media_width, media_height, media_placeholder)
+  on posts to anon, authenticated;
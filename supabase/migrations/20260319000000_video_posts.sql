@@ -0,0 +1,21 @@
+-- ============================================================
+-- Video posts
+-- media_type already allows 'video'. The clip goes in media_url
+-- and a frame captured by the browser (src/lib/videos.ts) in
+-- media_poster_url: the feed shows it until the clip plays and
+-- share cards use it in place of the video. media_width,
+-- media_height and media_placeholder describe the clip the same
+-- way they do an image.
+-- Both files live in the post-images bucket, so it must accept
+-- the video types and sizes in src/lib/limits.ts.
+-- ============================================================
+
+alter table posts add column if not exists media_poster_url text;
+
+-- Extend the column grant from 20260312000000_pending_posts.sql
+grant select (media_poster_url) on posts to anon, authenticated;
+
+-- Posting a video also uploads its poster, so it needs
+-- image_uploads as well
+insert into feature_flags (key, enabled) values ('video_uploads', true)
+on conflict (key) do nothing;
@@ -0,0 +1,23 @@
+-- ============================================================
+-- Multi-image posts
+-- Up to four images per post, in display order. The first one
+-- (the cover) is also copied to posts.media_url and its size and
+-- placeholder columns, so share cards, Realtime rows and older
+-- clients still show it. Posts from before this table have no
+-- rows here and are read from media_url alone (postImages() in
+-- src/lib/format.ts). Videos don't use it.
+-- ============================================================
+
+create table if not exists post_media (
+  post_id uuid not null references posts (id) on delete cascade,
+  position smallint not null check (position between 0 and 3),
+  url text not null,
+  width integer check (width between 1 and 10000),
+  height integer check (height between 1 and 10000),
+  placeholder text check (char_length(placeholder) <= 2048),
+  primary key (post_id, position)
+);
+
+-- Read and written only through the API routes, embedded in posts
+alter table post_media enable row level security;
+revoke all on post_media from anon, authenticated;
@@ -0,0 +1,8 @@
+-- ============================================================
+-- Per-network like limit: lifetime cap → sliding window
+-- The old cap counters (an integer state, kept for a year) would
+-- be misread by the window limiter and kept posts locked for
+-- whole networks, so they're dropped. Device caps are untouched.
+-- ============================================================
+
+delete from rate_limits where key like 'like:ip:%';
@@ -0,0 +1,159 @@
+-- ============================================================
+-- Interactions only on published posts
+-- like_post(), add_comment() and react_to_post() only checked that
+-- the post existed, so hidden, removed and pending posts still
+-- took likes, comments and reactions. They now report
+-- post_not_found for anything not published. Bodies are otherwise
+-- unchanged; create or replace keeps the existing grants.
+-- ============================================================
+
+create or replace function like_post(p_post_id uuid, p_user_pseudo_id text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  like_limit constant integer := 5;
+  given integer;
+  new_likes integer;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+
+  -- Lock the post row so concurrent likes from the same device
+  -- cannot both pass the cap check
+  perform 1 from posts
+  where id = p_post_id and status = 'published'
+  for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  select count(*) into given
+  from post_likes
+  where post_id = p_post_id and user_pseudo_id = p_user_pseudo_id;
+
+  if given >= like_limit then
+    raise exception 'like_limit_reached';
+  end if;
+
+  insert into post_likes (post_id, user_pseudo_id)
+  values (p_post_id, p_user_pseudo_id);
+
+  update posts
+  set likes = likes + 1
+  where id = p_post_id
+  returning likes into new_likes;
+
+  return new_likes;
+end;
+$$;
+
+create or replace function add_comment(
+  p_post_id uuid,
+  p_user_pseudo_id text,
+  p_content text
+)
+returns table (
+  id uuid,
+  post_id uuid,
+  content text,
+  anon_number integer,
+  created_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  trimmed text := btrim(p_content);
+  handle integer;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+  if char_length(trimmed) = 0 or char_length(trimmed) > 255 then
+    raise exception 'invalid_content';
+  end if;
+
+  -- Lock the post so two first-time commenters can't share a number
+  perform 1 from posts p
+  where p.id = p_post_id and p.status = 'published'
+  for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  select c.anon_number into handle
+  from comments c
+  where c.post_id = p_post_id and c.user_pseudo_id = p_user_pseudo_id
+  limit 1;
+
+  if handle is null then
+    select coalesce(max(c.anon_number), 0) + 1 into handle
+    from comments c
+    where c.post_id = p_post_id;
+  end if;
+
+  update posts p set comment_count = p.comment_count + 1
+  where p.id = p_post_id;
+
+  return query
+  insert into comments as c (post_id, content, user_pseudo_id, anon_number)
+  values (p_post_id, trimmed, p_user_pseudo_id, handle)
+  returning c.id, c.post_id, c.content, c.anon_number, c.created_at;
+end;
+$$;
+
+create or replace function react_to_post(
+  p_post_id uuid,
+  p_user_pseudo_id text,
+  p_reaction text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  counts jsonb;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+  if p_reaction not in ('laugh', 'fire', 'sad', 'wow', 'heart') then
+    raise exception 'invalid_reaction';
+  end if;
+
+  perform 1 from posts
+  where id = p_post_id and status = 'published'
+  for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  insert into post_reactions (post_id, user_pseudo_id, reaction)
+  values (p_post_id, p_user_pseudo_id, p_reaction)
+  on conflict do nothing;
+
+  if not found then
+    raise exception 'already_reacted';
+  end if;
+
+  update posts
+  set reactions = jsonb_set(
+    reactions,
+    array[p_reaction],
+    to_jsonb(coalesce((reactions ->> p_reaction)::integer, 0) + 1)
+  )
+  where id = p_post_id
+  returning reactions into counts;
+
+  return counts;
+end;
+$$;
@@ -0,0 +1,86 @@
+-- ============================================================
+-- Shadowbanned comments
+-- Like posts (20260317000000_bans.sql), comments from a
+-- shadowbanned device or network are stored with shadowbanned =
+-- true and only shown back to their author. ip_hash lets a later
+-- network shadowban reach existing comments. Both columns stay
+-- out of the client column grant.
+-- ============================================================
+
+alter table comments
+  add column if not exists ip_hash text,
+  add column if not exists shadowbanned boolean not null default false;
+
+-- add_comment() gains two parameters; drop the old signature so
+-- there's no overload left to call
+drop function if exists add_comment(uuid, text, text);
+
+create or replace function add_comment(
+  p_post_id uuid,
+  p_user_pseudo_id text,
+  p_content text,
+  p_ip_hash text default null,
+  p_shadowbanned boolean default false
+)
+returns table (
+  id uuid,
+  post_id uuid,
+  content text,
+  anon_number integer,
+  created_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  trimmed text := btrim(p_content);
+  handle integer;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+  if char_length(trimmed) = 0 or char_length(trimmed) > 255 then
+    raise exception 'invalid_content';
+  end if;
+
+  -- Lock the post so two first-time commenters can't share a number
+  perform 1 from posts p
+  where p.id = p_post_id and p.status = 'published'
+  for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  select c.anon_number into handle
+  from comments c
+  where c.post_id = p_post_id and c.user_pseudo_id = p_user_pseudo_id
+  limit 1;
+
+  if handle is null then
+    select coalesce(max(c.anon_number), 0) + 1 into handle
+    from comments c
+    where c.post_id = p_post_id;
+  end if;
+
+  -- Shadowbanned comments aren't counted: the count would give
+  -- them away
+  if not p_shadowbanned then
+    update posts p set comment_count = p.comment_count + 1
+    where p.id = p_post_id;
+  end if;
+
+  return query
+  insert into comments as c (
+    post_id, content, user_pseudo_id, anon_number, ip_hash, shadowbanned
+  )
+  values (
+    p_post_id, trimmed, p_user_pseudo_id, handle, p_ip_hash, p_shadowbanned
+  )
+  returning c.id, c.post_id, c.content, c.anon_number, c.created_at;
+end;
+$$;
+
+revoke all on function add_comment(uuid, text, text, text, boolean)
+  from public, anon, authenticated;
@@ -0,0 +1,9 @@
+-- ============================================================
+-- Video uploads off by default
+-- Clips are stored exactly as picked (src/lib/videos.ts), and
+-- phone MP4/MOV files usually carry the GPS location they were
+-- filmed at. Keep video_uploads off until that metadata is
+-- stripped on upload; /create also warns whoever attaches one.
+-- ============================================================
+
+update feature_flags set enabled = false where key = 'video_uploads';
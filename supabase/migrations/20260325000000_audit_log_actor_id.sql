@@ -0,0 +1,11 @@
+-- ============================================================
+-- Audit log: plain actor_id
+-- The foreign key to auth.users nulled actor_id when an admin's
+-- account was deleted, an UPDATE the append-only trigger
+-- rejects, so admins with audit entries couldn't be deleted at
+-- all. actor_id is now just the id the admin had; actor_email
+-- keeps entries readable once the account is gone.
+-- ============================================================
+
+alter table admin_audit_log
+  drop constraint if exists admin_audit_log_actor_id_fkey;
@@ -0,0 +1,72 @@
+-- ============================================================
+-- Recomputed shadowbans
+-- Issuing or lifting a shadowban used to flip shadowbanned on
+-- everything from the device and its whole network: issuing hid
+-- other people's posts on shared campus or NAT addresses, and
+-- lifting showed content another active shadowban still covered.
+-- refresh_shadowbans() recomputes the flag from the bans still in
+-- force instead:
+--   - a device's own posts and comments are hidden while any
+--     active shadowban names that device
+--   - content from other devices on a banned network is never
+--     hidden after the fact; what was hidden when it was written
+--     stays hidden while a shadowban on that network is active
+-- Comment counts of the affected posts are recounted, since
+-- shadowbanned comments aren't counted (20260323000000).
+-- ============================================================
+
+create index if not exists comments_author_idx on comments (user_pseudo_id);
+
+create or replace function refresh_shadowbans(
+  p_user_pseudo_id text,
+  p_ip_hash text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recounted uuid[];
+begin
+  update posts p
+  set shadowbanned = exists (
+    select 1 from bans b
+    where b.kind = 'shadowban'
+      and b.revoked_at is null
+      and (b.expires_at is null or b.expires_at > now())
+      and (b.user_pseudo_id = p.user_pseudo_id
+           or (p.shadowbanned and b.ip_hash = p.ip_hash))
+  )
+  where p.user_pseudo_id = p_user_pseudo_id
+     or (p.shadowbanned and p.ip_hash = p_ip_hash);
+
+  with changed as (
+    update comments c
+    set shadowbanned = not c.shadowbanned
+    where (c.user_pseudo_id = p_user_pseudo_id
+           or (c.shadowbanned and c.ip_hash = p_ip_hash))
+      and c.shadowbanned <> exists (
+        select 1 from bans b
+        where b.kind = 'shadowban'
+          and b.revoked_at is null
+          and (b.expires_at is null or b.expires_at > now())
+          and (b.user_pseudo_id = c.user_pseudo_id
+               or (c.shadowbanned and b.ip_hash = c.ip_hash))
+      )
+    returning c.post_id
+  )
+  select array_agg(distinct post_id) into recounted from changed;
+
+  -- A separate statement, so it sees the comments just updated
+  update posts p
+  set comment_count = (
+    select count(*) from comments c
+    where c.post_id = p.id and not c.shadowbanned
+  )
+  where p.id = any(recounted);
+end;
+$$;
+
+revoke all on function refresh_shadowbans(text, text)
+  from public, anon, authenticated;
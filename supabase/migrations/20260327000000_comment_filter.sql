@@ -0,0 +1,203 @@
+-- ============================================================
+-- Content filter for comments
+-- Comments now go through the same filter as posts
+-- (src/lib/server/content-filter.ts): rejected ones are never
+-- stored, masked ones are stored masked, and ones flagged for
+-- review are stored as 'pending' and shown only to their author
+-- until a moderator approves ('published') or rejects
+-- ('removed') them from /admin/moderation. Only published,
+-- non-shadowbanned comments count towards posts.comment_count.
+-- ============================================================
+
+alter table comments
+  add column if not exists status text not null default 'published',
+  add column if not exists filter_flags text[] not null default '{}';
+
+alter table comments drop constraint if exists comments_status_check;
+alter table comments add constraint comments_status_check
+  check (status in ('published', 'pending', 'removed'));
+
+create index if not exists comments_pending_idx
+  on comments (created_at) where status = 'pending';
+
+-- add_comment() gains two parameters; drop the old signature so
+-- there's no overload left to call
+drop function if exists add_comment(uuid, text, text, text, boolean);
+
+create or replace function add_comment(
+  p_post_id uuid,
+  p_user_pseudo_id text,
+  p_content text,
+  p_ip_hash text default null,
+  p_shadowbanned boolean default false,
+  p_status text default 'published',
+  p_filter_flags text[] default '{}'
+)
+returns table (
+  id uuid,
+  post_id uuid,
+  content text,
+  anon_number integer,
+  status text,
+  created_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  trimmed text := btrim(p_content);
+  handle integer;
+begin
+  if coalesce(length(p_user_pseudo_id), 0) = 0
+     or length(p_user_pseudo_id) > 64 then
+    raise exception 'invalid_user_pseudo_id';
+  end if;
+  if char_length(trimmed) = 0 or char_length(trimmed) > 255 then
+    raise exception 'invalid_content';
+  end if;
+  if p_status not in ('published', 'pending') then
+    raise exception 'invalid_status';
+  end if;
+
+  -- Lock the post so two first-time commenters can't share a number
+  perform 1 from posts p
+  where p.id = p_post_id and p.status = 'published'
+  for update;
+  if not found then
+    raise exception 'post_not_found';
+  end if;
+
+  select c.anon_number into handle
+  from comments c
+  where c.post_id = p_post_id and c.user_pseudo_id = p_user_pseudo_id
+  limit 1;
+
+  if handle is null then
+    select coalesce(max(c.anon_number), 0) + 1 into handle
+    from comments c
+    where c.post_id = p_post_id;
+  end if;
+
+  -- Shadowbanned comments aren't counted: the count would give
+  -- them away. Held ones are counted once approved.
+  if not p_shadowbanned and p_status = 'published' then
+    update posts p set comment_count = p.comment_count + 1
+    where p.id = p_post_id;
+  end if;
+
+  return query
+  insert into comments as c (
+    post_id, content, user_pseudo_id, anon_number, ip_hash, shadowbanned,
+    status, filter_flags
+  )
+  values (
+    p_post_id, trimmed, p_user_pseudo_id, handle, p_ip_hash, p_shadowbanned,
+    p_status, p_filter_flags
+  )
+  returning c.id, c.post_id, c.content, c.anon_number, c.status, c.created_at;
+end;
+$$;
+
+revoke all on function
+  add_comment(uuid, text, text, text, boolean, text, text[])
+  from public, anon, authenticated;
+
+-- Approve or reject a held comment, keeping comment_count in step
+create or replace function moderate_comment(p_comment_id uuid, p_action text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_status text;
+  new_status text;
+  hidden boolean;
+  target_post uuid;
+begin
+  if p_action not in ('approve', 'remove') then
+    raise exception 'invalid_action';
+  end if;
+
+  select c.status, c.shadowbanned, c.post_id
+  into old_status, hidden, target_post
+  from comments c
+  where c.id = p_comment_id
+  for update;
+  if not found then
+    raise exception 'comment_not_found';
+  end if;
+
+  new_status := case p_action when 'remove' then 'removed' else 'published' end;
+  update comments set status = new_status where id = p_comment_id;
+
+  if not hidden and old_status <> new_status then
+    update posts p
+    set comment_count = greatest(
+      p.comment_count + case new_status when 'published' then 1 else -1 end,
+      0
+    )
+    where p.id = target_post
+      and (new_status = 'published' or old_status = 'published');
+  end if;
+
+  return new_status;
+end;
+$$;
+
+revoke all on function moderate_comment(uuid, text)
+  from public, anon, authenticated;
+
+-- Recount only published comments when shadowbans change
+-- (20260326000000_refresh_shadowbans.sql)
+create or replace function refresh_shadowbans(
+  p_user_pseudo_id text,
+  p_ip_hash text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recounted uuid[];
+begin
+  update posts p
+  set shadowbanned = exists (
+    select 1 from bans b
+    where b.kind = 'shadowban'
+      and b.revoked_at is null
+      and (b.expires_at is null or b.expires_at > now())
+      and (b.user_pseudo_id = p.user_pseudo_id
+           or (p.shadowbanned and b.ip_hash = p.ip_hash))
+  )
+  where p.user_pseudo_id = p_user_pseudo_id
+     or (p.shadowbanned and p.ip_hash = p_ip_hash);
+
+  with changed as (
+    update comments c
+    set shadowbanned = not c.shadowbanned
+    where (c.user_pseudo_id = p_user_pseudo_id
+           or (c.shadowbanned and c.ip_hash = p_ip_hash))
+      and c.shadowbanned <> exists (
+        select 1 from bans b
+        where b.kind = 'shadowban'
+          and b.revoked_at is null
+          and (b.expires_at is null or b.expires_at > now())
+          and (b.user_pseudo_id = c.user_pseudo_id
+               or (c.shadowbanned and b.ip_hash = c.ip_hash))
+      )
+    returning c.post_id
+  )
+  select array_agg(distinct post_id) into recounted from changed;
+
+  -- A separate statement, so it sees the comments just updated
+  update posts p
+  set comment_count = (
+    select count(*) from comments c
+    where c.post_id = p.id and c.status = 'published' and not c.shadowbanned
+  )
+  where p.id = any(recounted);
+end;
+$$;
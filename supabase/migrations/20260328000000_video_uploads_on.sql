@@ -0,0 +1,8 @@
+-- ============================================================
+-- Video uploads back on
+-- The browser now blanks MP4/MOV metadata boxes, location
+-- included, before a clip is uploaded (src/lib/videos.ts), which
+-- 20260324000000_video_uploads_off.sql was waiting for.
+-- ============================================================
+
+update feature_flags set enabled = true where key = 'video_uploads';
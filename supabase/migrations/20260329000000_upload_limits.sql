@@ -0,0 +1,17 @@
+-- ============================================================
+-- Upload limits on the post-images bucket
+-- Signed upload URLs don't carry the type and size the client
+-- declared to POST /api/uploads, so Storage enforces the limits
+-- shared by all media here: the types in src/lib/limits.ts and
+-- the largest size (MAX_VIDEO_BYTES). The tighter per-type
+-- limits are checked by POST /api/posts against the stored file
+-- (src/lib/server/uploads.ts).
+-- ============================================================
+
+update storage.buckets
+set file_size_limit = 25 * 1024 * 1024,
+    allowed_mime_types = array[
+      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+      'video/mp4', 'video/webm', 'video/quicktime'
+    ]
+where id = 'post-images';
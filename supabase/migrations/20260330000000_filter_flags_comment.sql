@@ -0,0 +1,10 @@
+-- ============================================================
+-- Document posts.filter_flags
+-- 20260311000000_posts_filter_flags.sql says held posts are
+-- inserted as 'hidden'; since 20260312000000_pending_posts.sql
+-- they're inserted as 'pending'. The column comment records the
+-- current behaviour in the database itself.
+-- ============================================================
+
+comment on column posts.filter_flags is
+  'Content filter rules that matched the post (src/lib/server/content-filter.ts). Posts held for review are inserted as ''pending'' and reach the moderation queue with these flags explaining why.';
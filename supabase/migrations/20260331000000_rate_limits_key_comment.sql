@@ -0,0 +1,10 @@
+-- ============================================================
+-- Document rate_limits keys
+-- The key example in 20260308000000_rate_limits.sql is wrong:
+-- keys are "<action>:<layer>:<id>[:<scope>]", as built by
+-- enforceRateLimit (src/lib/server/rate-limit.ts). The
+-- column comment records the real format in the database itself.
+-- ============================================================
+
+comment on column rate_limits.key is
+  '"<action>:<layer>:<id>[:<scope>]", e.g. "post:id:<pseudo id>" or "like:ip:<ip hash>:<post id>" (enforceRateLimit in src/lib/server/rate-limit.ts).';